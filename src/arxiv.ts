@@ -0,0 +1,358 @@
+/**
+ * arXiv submission bundles
+ *
+ * Turns the files of an Overleaf project into what arXiv wants to receive:
+ *
+ *   - build artifacts (DEFAULT_IGNORE_PATTERNS, the PDF next to a .tex) are
+ *     dropped, and the `.bbl` from an Overleaf compile is added under the
+ *     main document's name
+ *   - comments are stripped from `.tex` sources (verbatim-like environments
+ *     are left alone; a trailing `%` is kept so line joins do not change)
+ *   - figures no `\includegraphics` (or other including command) refers to
+ *     are removed; references are resolved like TeX does, against
+ *     `\graphicspath` and the default graphics extensions
+ *   - optionally everything is flattened into one folder, rewriting the
+ *     paths of `\includegraphics`, `\input` and friends
+ *
+ * Constructs arXiv cannot build (shell-escape packages, a bibliography
+ * without `.bbl`, …) are reported as issues rather than fixed.
+ */
+
+import { basename, dirname, extname, posix } from 'node:path';
+import { buildTexSiblingSet, defaultIgnoreContext, shouldIgnore } from './ignore.js';
+
+export interface BundleFile {
+  path: string;
+  content: Buffer;
+}
+
+export interface ArxivIssue {
+  level: 'error' | 'warning';
+  message: string;
+  file?: string;
+}
+
+export interface ArxivBundleOptions {
+  /** Project path of the main document. */
+  main: string;
+  /** Compiled bibliography, added as `<main>.bbl`. */
+  bbl?: Buffer;
+  /** Strip comments from .tex files (default true). */
+  stripComments?: boolean;
+  /** Remove figures not referenced by any source (default true). */
+  removeUnused?: boolean;
+  /** Put every file into the top-level folder (default false). */
+  flatten?: boolean;
+  /** Compiler the project is set to, for the compatibility check. */
+  compiler?: string;
+}
+
+export interface ArxivBundle {
+  files: BundleFile[];
+  removed: Array<{ path: string; reason: 'ignored' | 'unreferenced' }>;
+  added: string[];
+  issues: ArxivIssue[];
+}
+
+/** arXiv's upload limit. */
+const MAX_BUNDLE_SIZE = 50 * 1024 * 1024;
+
+const TEX_EXTENSIONS = ['.tex', '.ltx'];
+const GRAPHICS_EXTENSIONS = ['.pdf', '.png', '.jpg', '.jpeg', '.eps', '.ps', '.gif', '.svg', '.tif', '.tiff'];
+const VERBATIM_ENVIRONMENTS = ['verbatim', 'Verbatim', 'lstlisting', 'minted', 'alltt', 'comment'];
+
+const isTex = (path: string) => TEX_EXTENSIONS.includes(extname(path).toLowerCase());
+const isGraphic = (path: string) => GRAPHICS_EXTENSIONS.includes(extname(path).toLowerCase());
+
+/**
+ * Position of the first comment character in `line`, or -1. Skips `\%`
+ * (and other escaped characters) and the body of `\verb` commands.
+ */
+function commentStart(line: string): number {
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '\\') {
+      const verb = line.slice(i).match(/^\\verb\*?(.)/);
+      if (verb) {
+        const close = line.indexOf(verb[1], i + verb[0].length);
+        if (close === -1) return -1;
+        i = close;
+      } else {
+        i++; // escaped character
+      }
+    } else if (ch === '%') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Remove comments from LaTeX source. Comment-only lines and `comment`
+ * environments disappear; `text % note` becomes `text %`.
+ */
+export function stripTexComments(text: string): string {
+  const out: string[] = [];
+  let verbatim: string | undefined;
+
+  for (const line of text.split('\n')) {
+    if (verbatim) {
+      if (line.includes(`\\end{${verbatim}}`)) {
+        if (verbatim !== 'comment') out.push(line);
+        verbatim = undefined;
+      } else if (verbatim !== 'comment') {
+        out.push(line);
+      }
+      continue;
+    }
+
+    const start = commentStart(line);
+    let kept = line;
+    if (start !== -1) {
+      if (line.slice(0, start).trim() === '') continue; // comment-only line
+      kept = line.slice(0, start + 1);
+    }
+
+    const env = kept.match(/\\begin\{([A-Za-z]+\*?)\}/)?.[1];
+    if (env && VERBATIM_ENVIRONMENTS.includes(env) && !kept.includes(`\\end{${env}}`)) {
+      verbatim = env;
+      if (env === 'comment') {
+        const before = kept.slice(0, kept.indexOf('\\begin{comment}'));
+        if (before.trim()) out.push(before);
+        continue;
+      }
+    }
+    out.push(kept);
+  }
+  return out.join('\n');
+}
+
+/**
+ * Guess the main document: a .tex file with `\documentclass`, preferring
+ * `main.tex` and files at the top level.
+ */
+export function findMainDocument(files: BundleFile[]): string | undefined {
+  const candidates = files
+    .filter((f) => isTex(f.path) && /\\documentclass/.test(stripTexComments(f.content.toString('utf-8'))))
+    .map((f) => f.path)
+    .sort((a, b) => a.split('/').length - b.split('/').length || a.localeCompare(b));
+  return candidates.find((p) => basename(p) === 'main.tex') ?? candidates[0];
+}
+
+const usesPackage = (source: string, name: string) =>
+  new RegExp(`\\\\usepackage\\s*(\\[[^\\]]*\\])?\\s*\\{[^}]*\\b${name}\\b[^}]*\\}`).test(source);
+
+/**
+ * Report constructs arXiv cannot build.
+ */
+function checkSources(sources: Map<string, string>, opts: ArxivBundleOptions): ArxivIssue[] {
+  const issues: ArxivIssue[] = [];
+  let bibliography = false;
+
+  for (const [file, source] of sources) {
+    if (usesPackage(source, 'minted')) {
+      issues.push({ level: 'error', file, message: 'minted needs -shell-escape, which arXiv does not enable (use the frozencache option or listings)' });
+    }
+    if (usesPackage(source, 'svg')) {
+      issues.push({ level: 'error', file, message: 'the svg package runs Inkscape through -shell-escape; convert the figures to PDF' });
+    }
+    if (/\\(?:immediate\s*)?\\write18|\\ShellEscape/.test(source)) {
+      issues.push({ level: 'error', file, message: '\\write18 needs -shell-escape, which arXiv does not enable' });
+    }
+    if (usesPackage(source, 'biblatex')) {
+      issues.push({ level: 'warning', file, message: 'biblatex: arXiv only accepts a .bbl made by the biber version it runs' });
+    }
+    if (/\\(?:input|include|includegraphics)\s*(\[[^\]]*\])?\s*\{\//.test(source)) {
+      issues.push({ level: 'warning', file, message: 'absolute paths will not resolve on arXiv' });
+    }
+    if (/\\bibliography\s*\{|\\addbibresource\s*\{|\\printbibliography/.test(source)) {
+      bibliography = true;
+    }
+  }
+
+  const mainSource = sources.get(opts.main);
+  if (mainSource === undefined) {
+    issues.push({ level: 'error', file: opts.main, message: 'main document not found in the project' });
+  } else if (!/\\documentclass/.test(mainSource)) {
+    issues.push({ level: 'error', file: opts.main, message: 'main document has no \\documentclass' });
+  }
+  if (bibliography && !opts.bbl) {
+    issues.push({ level: 'error', message: 'the sources use a bibliography but the compile produced no .bbl; arXiv does not run BibTeX/biber' });
+  }
+  if (opts.compiler === 'xelatex' || opts.compiler === 'lualatex') {
+    issues.push({ level: 'warning', message: `the project compiles with ${opts.compiler}; arXiv builds with pdfLaTeX or LaTeX` });
+  }
+  return issues;
+}
+
+const PATH_COMMANDS = /\\(includegraphics|includepdf|includesvg|input|include|subfile|lstinputlisting|verbatiminput|bibliography)(\*?)(\s*\[[^\]]*\])?(\s*)\{([^}]*)\}/g;
+const IMPORT_COMMAND = /\\(?:sub)?import\*?\s*\{([^}]*)\}\s*\{([^}]*)\}/g;
+const GRAPHICSPATH = /\\graphicspath\s*\{((?:\s*\{[^}]*\})*)\s*\}/g;
+
+/** Extensions TeX tries for an argument given without one, per command. */
+const DEFAULT_EXTENSIONS: Record<string, string[]> = {
+  includegraphics: GRAPHICS_EXTENSIONS,
+  includepdf: ['.pdf'],
+  includesvg: ['.svg'],
+  input: TEX_EXTENSIONS,
+  include: TEX_EXTENSIONS,
+  subfile: TEX_EXTENSIONS,
+  bibliography: ['.bib'],
+};
+
+const GRAPHICS_COMMANDS = ['includegraphics', 'includepdf', 'includesvg'];
+
+/**
+ * Project paths the (comment-free) sources refer to through file-including
+ * commands. Arguments are resolved against the project root, `\graphicspath`
+ * for graphics, and the command's default extensions. `dynamic` is set when
+ * an argument is built from macros (`#1`, `\figdir`) and can't be resolved.
+ */
+function referencedPaths(sources: string[]): { paths: Set<string>; dynamic: boolean } {
+  const graphicsDirs = [''];
+  for (const source of sources) {
+    for (const [, dirs] of source.matchAll(GRAPHICSPATH)) {
+      for (const [, dir] of dirs.matchAll(/\{([^}]*)\}/g)) graphicsDirs.push(dir.trim());
+    }
+  }
+
+  const paths = new Set<string>();
+  let dynamic = false;
+  const add = (arg: string, extensions: string[], dirs: string[]) => {
+    const name = arg.trim().replace(/^"(.*)"$/, '$1');
+    if (!name) return;
+    if (/[#\\]/.test(name)) {
+      dynamic = true;
+      return;
+    }
+    for (const dir of dirs) {
+      for (const candidate of [name, ...extensions.map((ext) => name + ext)]) {
+        paths.add(posix.normalize(posix.join(dir, candidate)).replace(/^\/+/, ''));
+      }
+    }
+  };
+
+  for (const source of sources) {
+    for (const [, cmd, , , , arg] of source.matchAll(PATH_COMMANDS)) {
+      const dirs = GRAPHICS_COMMANDS.includes(cmd) ? graphicsDirs : [''];
+      for (const name of arg.split(',')) add(name, DEFAULT_EXTENSIONS[cmd] ?? [], dirs);
+    }
+    for (const [, dir, file] of source.matchAll(IMPORT_COMMAND)) {
+      add(posix.join(dir.trim(), file.trim()), TEX_EXTENSIONS, ['']);
+    }
+  }
+  return { paths, dynamic };
+}
+
+/**
+ * Rewrite the path arguments of file-including commands to bare file names.
+ */
+function flattenSource(source: string): string {
+  return source
+    .replace(/\\graphicspath\s*\{(?:\s*\{[^}]*\})*\s*\}/g, '')
+    .replace(/\\(?:sub)?import\*?\s*\{[^}]*\}\s*\{([^}]*)\}/g, (_m, file: string) => `\\input{${posix.basename(file.trim())}}`)
+    .replace(PATH_COMMANDS, (_m, cmd: string, star: string, opt = '', space: string, arg: string) => {
+      const args = arg.split(',').map((a) => posix.basename(a.trim()));
+      return `\\${cmd}${star}${opt}${space}{${args.join(',')}}`;
+    });
+}
+
+/**
+ * Assemble the submission from the project files.
+ */
+export function buildArxivBundle(files: BundleFile[], opts: ArxivBundleOptions): ArxivBundle {
+  const stripComments = opts.stripComments !== false;
+  const removed: ArxivBundle['removed'] = [];
+  const added: string[] = [];
+
+  // 1. Drop build artifacts (defaults plus the PDF-next-to-.tex rule)
+  const ctx = defaultIgnoreContext();
+  const siblings = new Map<string, Set<string>>();
+  for (const f of files) {
+    const dir = dirname(f.path);
+    if (!siblings.has(dir)) {
+      siblings.set(dir, buildTexSiblingSet(files.filter((g) => dirname(g.path) === dir).map((g) => basename(g.path))));
+    }
+  }
+  let kept = files.filter((f) => {
+    if (shouldIgnore(f.path, ctx, siblings.get(dirname(f.path)))) {
+      removed.push({ path: f.path, reason: 'ignored' });
+      return false;
+    }
+    return true;
+  });
+
+  // 2. Strip comments, so commented-out figures count as unreferenced
+  kept = kept.map((f) => isTex(f.path) && stripComments
+    ? { path: f.path, content: Buffer.from(stripTexComments(f.content.toString('utf-8')), 'utf-8') }
+    : f);
+
+  const sources = new Map<string, string>();
+  for (const f of kept) {
+    if (isTex(f.path)) sources.set(f.path, stripComments ? f.content.toString('utf-8') : stripTexComments(f.content.toString('utf-8')));
+  }
+  const issues = checkSources(sources, opts);
+
+  // 3. Remove figures no source refers to (packages and classes included)
+  if (opts.removeUnused !== false) {
+    const references = referencedPaths([
+      ...sources.values(),
+      ...kept.filter((f) => /\.(sty|cls)$/i.test(f.path)).map((f) => stripTexComments(f.content.toString('utf-8'))),
+    ]);
+    if (references.dynamic) {
+      issues.push({ level: 'warning', message: 'some include paths are built from macros; unused figures were not removed' });
+    } else {
+      kept = kept.filter((f) => {
+        if (!isGraphic(f.path) || references.paths.has(f.path)) return true;
+        removed.push({ path: f.path, reason: 'unreferenced' });
+        return false;
+      });
+    }
+  }
+
+  // 4. Add the compiled bibliography next to the main document
+  let mainPath = opts.main;
+  if (opts.bbl) {
+    const bblPath = posix.join(dirname(mainPath), `${basename(mainPath, extname(mainPath))}.bbl`);
+    kept = kept.filter((f) => f.path !== bblPath);
+    kept.push({ path: bblPath, content: opts.bbl });
+    added.push(bblPath);
+  }
+
+  // 5. Flatten into one folder when the names allow it
+  if (opts.flatten) {
+    const names = new Map<string, string>();
+    const clashes = new Set<string>();
+    for (const f of kept) {
+      const name = basename(f.path).toLowerCase();
+      if (names.has(name)) clashes.add(basename(f.path));
+      names.set(name, f.path);
+    }
+    if (clashes.size > 0) {
+      issues.push({ level: 'error', message: `cannot flatten: several files are named ${Array.from(clashes).join(', ')}` });
+    } else {
+      kept = kept.map((f) => ({
+        path: basename(f.path),
+        content: isTex(f.path) ? Buffer.from(flattenSource(f.content.toString('utf-8')), 'utf-8') : f.content,
+      }));
+      added.splice(0, added.length, ...added.map((p) => basename(p)));
+      mainPath = basename(mainPath);
+    }
+  }
+
+  if (mainPath.includes('/')) {
+    issues.push({ level: 'warning', file: mainPath, message: 'arXiv looks for the main document at the top level; consider --flatten' });
+  }
+  for (const f of kept) {
+    if (/\s/.test(f.path) || /[^\x20-\x7e]/.test(f.path)) {
+      issues.push({ level: 'warning', file: f.path, message: 'file names with spaces or non-ASCII characters often break on arXiv' });
+    }
+  }
+  const size = kept.reduce((total, f) => total + f.content.length, 0);
+  if (size > MAX_BUNDLE_SIZE) {
+    issues.push({ level: 'warning', message: `the bundle is ${(size / 1024 / 1024).toFixed(1)} MB; arXiv accepts at most 50 MB` });
+  }
+
+  kept.sort((a, b) => a.path.localeCompare(b.path));
+  return { files: kept, removed, added, issues };
+}
@@ -0,0 +1,69 @@
+/**
+ * Base snapshot store for three-way sync
+ *
+ * After every successful pull or sync, olcli keeps a copy of each text
+ * document exactly as it was on Overleaf under `.olcli/base/<path>`. That
+ * copy is the common ancestor `sync` needs to tell "changed locally" from
+ * "changed remotely" and to merge both sides instead of letting one win.
+ *
+ * Binary files (figures, PDFs) are not snapshotted; they keep the
+ * last-writer-wins behaviour.
+ */
+
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+
+/** Directory (relative to the project root) holding olcli's private state. */
+export const STATE_DIR = '.olcli';
+
+function basePath(root: string, relativePath: string): string {
+  return join(root, STATE_DIR, 'base', relativePath);
+}
+
+/**
+ * Heuristic text detection (same idea as git): no NUL byte in the first
+ * 8000 bytes and valid UTF-8.
+ */
+export function isTextContent(content: Buffer): boolean {
+  if (content.subarray(0, 8000).includes(0)) return false;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(content);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read the base snapshot of a path, or undefined if none was recorded.
+ */
+export function readBase(root: string, relativePath: string): Buffer | undefined {
+  const path = basePath(root, relativePath);
+  if (!existsSync(path)) return undefined;
+  try {
+    return readFileSync(path);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Record `content` as the base snapshot of a path. Binary content is not
+ * stored (and any stale snapshot is dropped).
+ */
+export function writeBase(root: string, relativePath: string, content: Buffer): void {
+  if (!isTextContent(content)) {
+    removeBase(root, relativePath);
+    return;
+  }
+  const path = basePath(root, relativePath);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, content);
+}
+
+/**
+ * Forget the base snapshot of a path (e.g. after it was deleted).
+ */
+export function removeBase(root: string, relativePath: string): void {
+  rmSync(basePath(root, relativePath), { force: true });
+}
@@ -9,17 +9,77 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
-import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'node:fs';
-import { join, dirname, basename } from 'node:path';
+import { writeFileSync, readFileSync, existsSync, mkdirSync, rmSync, statSync } from 'node:fs';
+import { join, dirname, basename, relative, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { OverleafClient } from './client.js';
+import { createInterface } from 'node:readline/promises';
+import {
+  OverleafClient,
+  type HistoryUpdate,
+  type HistoryUser,
+  type ListProjectsOptions,
+  type Project,
+  type ProjectUser,
+  type Tag,
+  type AccessLevel,
+  type ProjectMember,
+  type CompileOptions,
+  type Compiler,
+  type ProjectSettings,
+  type WordCount,
+  type TrackedChange,
+  type ChatMessage,
+  type TreeEntry,
+} from './client.js';
 import {
   loadIgnore,
   shouldIgnore,
   buildTexSiblingSet,
+  listProjectFiles,
   DEFAULT_IGNORE_PATTERNS,
   type IgnoreContext,
 } from './ignore.js';
+import { readBase, writeBase, removeBase, isTextContent } from './base.js';
+import { reconcileFile, hasConflictMarkers } from './merge.js';
+import {
+  readProjectMeta,
+  writeProjectMeta,
+  hasHashManifest,
+  isChanged,
+  fileState,
+  type FileState,
+  type FileStates,
+} from './manifest.js';
+import { unifiedDiff } from './diff.js';
+import { computeStatus, OUT_OF_SYNC, type FileStatus } from './status.js';
+import { watchProject, type WatchEvent, type WatchEventKind } from './watch.js';
+import { DocWriter, type RealtimeSession } from './realtime.js';
+import { exportHistoryToGit } from './export-git.js';
+import { resolveCompileOptions, COMPILERS } from './compile.js';
+import { parseLatexLog, formatLogEntry, type LogLevel } from './latex-log.js';
+import {
+  parseFailOn,
+  isFailure,
+  compileFailed,
+  toJUnit,
+  toSarif,
+  toGitHubAnnotations,
+  type CompileReport,
+} from './report.js';
+import { buildArxivBundle, findMainDocument } from './arxiv.js';
+import { createTarGz } from './tar.js';
+import {
+  docPaths,
+  joinComments,
+  joinChanges,
+  findThread,
+  findChanges,
+  newThreadId,
+  shortId,
+  trackChangesMarkup,
+  type ReviewComment,
+  type ReviewChange,
+} from './review.js';
 
 // Read version from package.json
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -36,7 +96,10 @@ import {
   getBaseUrl,
   setBaseUrl,
   getSessionCookieName,
-  setSessionCookieName
+  setSessionCookieName,
+  getLastBuild,
+  setLastBuild,
+  type CachedBuild
 } from './config.js';
 
 const program = new Command();
@@ -76,7 +139,8 @@ interface ResolvedProject {
 async function resolveProject(
   client: OverleafClient,
   projectArg?: string,
-  dir: string = '.'
+  dir: string = '.',
+  lookup: ListProjectsOptions = {}
 ): Promise<ResolvedProject> {
   // If project argument provided, use it
   if (projectArg) {
@@ -87,7 +151,7 @@ async function resolveProject(
     }
     
     // Otherwise, look up by name
-    let proj = await client.getProject(projectArg);
+    let proj = await client.getProject(projectArg, lookup);
     if (!proj) {
       throw new Error(`Project not found: ${projectArg}`);
     }
@@ -107,6 +171,63 @@ async function resolveProject(
   throw new Error('No project specified. Provide a project name/ID or run from a synced directory.');
 }
 
+/**
+ * Print unified diff hunks (from unifiedDiff) with git-style colors
+ */
+function printUnifiedDiff(lines: string[]): void {
+  for (const line of lines) {
+    if (line.startsWith('@@')) console.log(chalk.cyan(line));
+    else if (line.startsWith('+')) console.log(chalk.green(line));
+    else if (line.startsWith('-')) console.log(chalk.red(line));
+    else console.log(line);
+  }
+}
+
+/**
+ * Add the compile flags shared by compile, pdf and output
+ */
+function withCompileOptions(cmd: Command): Command {
+  return cmd
+    .option('--main <path>', 'Root document to compile (default: the project main document)')
+    .option('--compiler <name>', 'Compiler: pdflatex, xelatex, lualatex or latex')
+    .option('--draft', 'Compile in draft mode (faster, images left out)')
+    .option('--stop-on-first-error', 'Stop at the first LaTeX error')
+    .option('--check <mode>', 'Syntax check before compiling: validate, error or silent')
+    .option('--timeout <seconds>', 'Seconds to wait for the compile to finish', (v) => parseInt(v, 10));
+}
+
+/**
+ * Compile options from the flags, over the `compile` defaults in
+ * .olcli.json when the directory is linked to the same project
+ */
+async function compileOptionsFor(client: OverleafClient, projectId: string, options: any, dir = '.'): Promise<CompileOptions> {
+  const meta = readProjectMeta(dir);
+  const defaults = meta?.projectId === projectId ? meta.compile : undefined;
+  return resolveCompileOptions(client, projectId, {
+    main: options.main,
+    compiler: options.compiler,
+    draft: options.draft,
+    stopOnFirstError: options.stopOnFirstError,
+    check: options.check,
+    timeout: options.timeout,
+  }, defaults);
+}
+
+/**
+ * Ask a yes/no question on the terminal (defaults to no). Without a TTY
+ * there is nobody to ask, so the answer is no.
+ */
+async function confirm(question: string): Promise<boolean> {
+  if (!process.stdin.isTTY) return false;
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question(`${question} [y/N] `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // AUTH COMMANDS
 // ─────────────────────────────────────────────────────────────────────────────
@@ -188,18 +309,80 @@ program
 // PROJECT COMMANDS
 // ─────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Display name for a project owner or editor
+ */
+function formatProjectUser(user: ProjectUser | undefined): string {
+  if (!user) return 'unknown';
+  const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+  return name ? `${name} <${user.email}>` : user.email;
+}
+
+/**
+ * Build a project name matcher from `--search`: `/pattern/flags` is a
+ * regular expression, anything else a case-insensitive substring.
+ */
+function projectMatcher(search: string): (name: string) => boolean {
+  const regex = search.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    const re = new RegExp(regex[1], regex[2]);
+    return (name) => re.test(name);
+  }
+  const needle = search.toLowerCase();
+  return (name) => name.toLowerCase().includes(needle);
+}
+
+const PROJECT_SORTS: Record<string, (a: Project, b: Project) => number> = {
+  name: (a, b) => a.name.localeCompare(b.name),
+  updated: (a, b) => new Date(b.lastUpdated).getTime() - new Date(a.lastUpdated).getTime(),
+  owner: (a, b) => (a.owner?.email ?? '').localeCompare(b.owner?.email ?? '') || a.name.localeCompare(b.name),
+};
+
 program
   .command('list')
-  .alias('ls')
   .description('List all projects')
+  .option('--archived', 'Show archived projects')
+  .option('--trashed', 'Show trashed projects')
+  .option('--all', 'Show all projects, including archived and trashed')
+  .option('--owner <who>', 'Only projects owned by me or by others (me|others)')
+  .option('--tag <name>', 'Only projects with this tag')
+  .option('--search <text>', 'Only projects whose name contains text (or matches /regex/)')
+  .option('--sort <key>', 'Sort by name, updated or owner')
   .option('--json', 'Output as JSON')
   .option('-n, --limit <n>', 'Limit number of results', parseInt)
   .option('--cookie <session>', 'Session cookie override')
   .action(async (options) => {
     const spinner = ora('Fetching projects...').start();
     try {
+      if (options.owner && !['me', 'others'].includes(options.owner)) {
+        throw new Error(`Invalid --owner: ${options.owner} (expected me or others)`);
+      }
+      if (options.sort && !PROJECT_SORTS[options.sort]) {
+        throw new Error(`Invalid --sort: ${options.sort} (expected ${Object.keys(PROJECT_SORTS).join(', ')})`);
+      }
+
       const client = await getClient(options.cookie);
-      let projects = await client.listProjects();
+      let projects = await client.listProjects({ includeArchived: true, includeTrashed: true });
+
+      if (!options.all) {
+        projects = options.archived || options.trashed
+          ? projects.filter((p) => (options.archived && p.archived) || (options.trashed && p.trashed))
+          : projects.filter((p) => !p.archived && !p.trashed);
+      }
+      if (options.owner) {
+        // Projects whose owner could not be determined match neither
+        projects = projects.filter((p) => p.ownedByMe === (options.owner === 'me'));
+      }
+      if (options.tag) {
+        projects = projects.filter((p) => p.tags?.includes(options.tag));
+      }
+      if (options.search) {
+        const matches = projectMatcher(options.search);
+        projects = projects.filter((p) => matches(p.name));
+      }
+      if (options.sort) {
+        projects.sort(PROJECT_SORTS[options.sort]);
+      }
 
       if (options.limit) {
         projects = projects.slice(0, options.limit);
@@ -220,8 +403,16 @@ program
       console.log(chalk.bold(`Found ${projects.length} project(s):\n`));
       for (const p of projects) {
         const date = new Date(p.lastUpdated).toLocaleDateString();
-        console.log(`  ${chalk.cyan(p.id)} - ${chalk.bold(p.name)}`);
-        console.log(`    ${chalk.dim(`Last updated: ${date}`)}`);
+        const flags = [p.archived && 'archived', p.trashed && 'trashed'].filter(Boolean);
+        const badge = flags.length > 0 ? ` ${chalk.yellow(`[${flags.join(', ')}]`)}` : '';
+        console.log(`  ${chalk.cyan(p.id)} - ${chalk.bold(p.name)}${badge}`);
+        const updatedBy = p.lastUpdatedBy ? ` by ${formatProjectUser(p.lastUpdatedBy)}` : '';
+        console.log(`    ${chalk.dim(`Last updated: ${date}${updatedBy}`)}`);
+        const access = p.accessLevel ? `  Access: ${p.accessLevel}` : '';
+        console.log(`    ${chalk.dim(`Owner: ${formatProjectUser(p.owner)}${access}`)}`);
+        if (p.tags && p.tags.length > 0) {
+          console.log(`    ${chalk.dim(`Tags: ${p.tags.join(', ')}`)}`);
+        }
       }
     } catch (error: any) {
       spinner.fail(`Failed: ${error.message}`);
@@ -271,46 +462,92 @@ program
     }
   });
 
-function printFolder(folder: any, indent: string): void {
-  // Print subfolders
-  for (const f of folder.folders || []) {
-    console.log(`${indent}📁 ${chalk.blue(f.name)}/`);
-    printFolder(f, indent + '  ');
-  }
-
-  // Print docs
-  for (const d of folder.docs || []) {
-    console.log(`${indent}📄 ${d.name}`);
-  }
-
-  // Print files
-  for (const f of folder.fileRefs || []) {
-    console.log(`${indent}📎 ${f.name}`);
-  }
-}
-
-// ─────────────────────────────────────────────────────────────────────────────
-// DOWNLOAD COMMANDS
-// ─────────────────────────────────────────────────────────────────────────────
-
 program
-  .command('download <file> [project]')
-  .description('Download a single file from project')
-  .option('-o, --output <path>', 'Output path (default: same as file name)')
+  .command('new <name>')
+  .description('Create a new project (blank, or from a local directory or zip)')
+  .option('--from <path>', 'Upload a local directory or .zip file as the initial content')
+  .option('--example', 'Start from the Overleaf example project instead of a blank one')
+  .option('--no-link', 'Do not link the --from directory to the new project')
+  .option('--no-default-ignore', 'Disable built-in LaTeX artifact ignore list (only .olignore applies)')
+  .option('--no-ignore', 'Disable all ignore filtering (escape hatch — uploads everything)')
+  .option('--json', 'Output as JSON')
   .option('--cookie <session>', 'Session cookie override')
-  .action(async (file, project, options) => {
-    const spinner = ora('Downloading file...').start();
+  .action(async (name, options) => {
+    const spinner = ora('Creating project...').start();
     try {
       const client = await getClient(options.cookie);
-      const proj = await resolveProject(client, project);
+      let projectId: string;
+      let linkedDir: string | undefined;
+
+      if (!options.from) {
+        projectId = await client.createProject(name, options.example ? 'example' : 'none');
+      } else if (!existsSync(options.from)) {
+        throw new Error(`Not found: ${options.from}`);
+      } else if (!statSync(options.from).isDirectory()) {
+        spinner.text = `Uploading ${basename(options.from)}...`;
+        projectId = await client.createProjectFromZip(name, readFileSync(options.from));
+      } else {
+        const sourceDir = options.from;
+        const ignoreCtx = loadIgnore(sourceDir, {
+          noDefaults: options.defaultIgnore === false,
+          disableAll: options.ignore === false,
+        });
+        const files = listProjectFiles(sourceDir, ignoreCtx);
+        if (files.length === 0) {
+          throw new Error(`No files to upload in ${sourceDir}`);
+        }
 
-      const content = await client.downloadByPath(proj.id, file);
-      const outputPath = options.output || basename(file);
+        spinner.text = `Uploading ${files.length} files...`;
+        const AdmZip = (await import('adm-zip')).default;
+        const zip = new AdmZip();
+        const contents = new Map<string, Buffer>();
+        for (const file of files) {
+          const content = readFileSync(join(sourceDir, file));
+          contents.set(file, content);
+          zip.addFile(file, content);
+        }
+        projectId = await client.createProjectFromZip(name, zip.toBuffer());
+
+        // Link the directory so push/pull/sync work right away
+        const existing = readProjectMeta(sourceDir);
+        if (options.link && !existing) {
+          const states: FileStates = {};
+          for (const [file, content] of contents) {
+            states[file] = fileState(content);
+            writeBase(sourceDir, file, content);
+          }
+          const now = new Date().toISOString();
+          writeProjectMeta(sourceDir, {
+            projectId,
+            projectName: name,
+            lastPull: now,
+            lastSync: now,
+            remoteManifest: files,
+            remoteFiles: states,
+            localFiles: { ...states },
+          });
+          linkedDir = sourceDir;
+        } else if (options.link) {
+          spinner.stop();
+          console.log(chalk.yellow(`${sourceDir} is already linked to ${existing!.projectName}; leaving .olcli.json unchanged`));
+        }
+      }
 
-      writeFileSync(outputPath, content);
-      spinner.succeed(`Downloaded: ${outputPath} (${(content.length / 1024).toFixed(1)} KB)`);
+      spinner.stop();
+      const baseUrl = (program.opts().baseUrl as string | undefined) || getBaseUrl();
+      const url = `${baseUrl}/project/${projectId}`;
+      if (options.json) {
+        console.log(JSON.stringify({ id: projectId, name, url, linkedDir }, null, 2));
+      } else {
+        console.log(chalk.green(`✓ Created project ${chalk.bold(name)}`));
+        console.log(`  ID:  ${chalk.cyan(projectId)}`);
+        console.log(`  URL: ${url}`);
+        if (linkedDir) {
+          console.log(chalk.dim(`  Linked ${linkedDir} — run olcli push/sync there to keep it in sync`));
+        }
+      }
 
-      setLastProject(proj.id);
+      setLastProject(projectId);
     } catch (error: any) {
       spinner.fail(`Failed: ${error.message}`);
       process.exit(1);
@@ -318,113 +555,170 @@ program
   });
 
 program
-  .command('zip [project]')
-  .description('Download project as zip archive')
-  .option('-o, --output <path>', 'Output path (default: <project-name>.zip)')
+  .command('clone-project <project> <newName>')
+  .alias('copy')
+  .description('Copy a project on Overleaf under a new name')
+  .option('--json', 'Output as JSON')
   .option('--cookie <session>', 'Session cookie override')
-  .action(async (project, options) => {
-    const spinner = ora('Downloading project...').start();
+  .action(async (project, newName, options) => {
+    const spinner = ora('Copying project...').start();
     try {
       const client = await getClient(options.cookie);
-      const proj = await resolveProject(client, project);
-
-      const zip = await client.downloadProject(proj.id);
-      const outputPath = options.output || `${proj.name.replace(/[^a-zA-Z0-9-_]/g, '_')}.zip`;
+      const proj = await resolveProject(client, project, '.', { includeArchived: true });
+      const newId = await client.cloneProject(proj.id, newName);
+      spinner.stop();
 
-      writeFileSync(outputPath, zip);
-      spinner.succeed(`Downloaded: ${outputPath} (${(zip.length / 1024).toFixed(1)} KB)`);
+      if (options.json) {
+        console.log(JSON.stringify({ id: newId, name: newName, source: proj }, null, 2));
+      } else {
+        console.log(chalk.green(`✓ Copied ${chalk.bold(proj.name)} to ${chalk.bold(newName)}`));
+        console.log(`  ID: ${chalk.cyan(newId)}`);
+      }
 
-      setLastProject(proj.id);
+      setLastProject(newId);
     } catch (error: any) {
       spinner.fail(`Failed: ${error.message}`);
       process.exit(1);
     }
   });
 
+/**
+ * archive/unarchive/trash/untrash share one shape: resolve, call, report.
+ */
+function addProjectStateCommand(
+  name: string,
+  description: string,
+  lookup: ListProjectsOptions,
+  verb: string,
+  apply: (client: OverleafClient, projectId: string) => Promise<void>
+): void {
+  program
+    .command(`${name} [project]`)
+    .description(description)
+    .option('--cookie <session>', 'Session cookie override')
+    .action(async (project, options) => {
+      const spinner = ora('Updating project...').start();
+      try {
+        const client = await getClient(options.cookie);
+        const proj = await resolveProject(client, project, '.', lookup);
+        await apply(client, proj.id);
+        spinner.succeed(`${verb} ${proj.name}`);
+      } catch (error: any) {
+        spinner.fail(`Failed: ${error.message}`);
+        process.exit(1);
+      }
+    });
+}
+
+addProjectStateCommand('archive', 'Archive a project', {}, 'Archived',
+  (client, id) => client.archiveProject(id));
+addProjectStateCommand('unarchive', 'Restore an archived project', { includeArchived: true }, 'Unarchived',
+  (client, id) => client.unarchiveProject(id));
+addProjectStateCommand('trash', 'Move a project to the trash', { includeArchived: true }, 'Trashed',
+  (client, id) => client.trashProject(id));
+addProjectStateCommand('untrash', 'Restore a project from the trash', { includeArchived: true, includeTrashed: true }, 'Restored',
+  (client, id) => client.untrashProject(id));
+
 program
-  .command('pdf [project]')
-  .description('Compile and download PDF')
-  .option('-o, --output <path>', 'Output path (default: <project-name>.pdf)')
+  .command('delete-project <project>')
+  .description('Permanently delete a project (asks for confirmation)')
+  .option('-y, --yes', 'Do not ask for confirmation')
   .option('--cookie <session>', 'Session cookie override')
   .action(async (project, options) => {
-    const spinner = ora('Compiling project...').start();
+    const spinner = ora('Fetching project...').start();
     try {
       const client = await getClient(options.cookie);
-      const proj = await resolveProject(client, project);
-
-      spinner.text = 'Compiling...';
-      const pdf = await client.downloadPdf(proj.id);
-      const outputPath = options.output || `${proj.name.replace(/[^a-zA-Z0-9-_]/g, '_')}.pdf`;
+      const lookup = { includeArchived: true, includeTrashed: true };
+      const proj = await resolveProject(client, project, '.', lookup);
+      // An ID is trusted without a lookup; fetch the name for the prompt
+      const name = (await client.getProjectById(proj.id, lookup))?.name ?? proj.name;
+      spinner.stop();
 
-      writeFileSync(outputPath, pdf);
-      spinner.succeed(`Downloaded PDF: ${outputPath} (${(pdf.length / 1024).toFixed(1)} KB)`);
+      if (!options.yes) {
+        if (!process.stdin.isTTY) {
+          throw new Error('Refusing to delete without confirmation; pass --yes to skip the prompt');
+        }
+        if (!(await confirm(`Permanently delete ${chalk.bold(name)} (${proj.id})? This cannot be undone.`))) {
+          console.log('Aborted');
+          return;
+        }
+      }
 
-      setLastProject(proj.id);
+      spinner.start('Deleting project...');
+      await client.deleteProject(proj.id);
+      spinner.succeed(`Deleted ${name}`);
     } catch (error: any) {
       spinner.fail(`Failed: ${error.message}`);
       process.exit(1);
     }
   });
 
+const SETTING_KEYS: Record<string, keyof ProjectSettings | 'rootDoc'> = {
+  compiler: 'compiler',
+  imagename: 'imageName',
+  texlive: 'imageName',
+  rootdoc: 'rootDoc',
+  main: 'rootDoc',
+  spellchecklanguage: 'spellCheckLanguage',
+  spellcheck: 'spellCheckLanguage',
+  name: 'name',
+};
+
 program
-  .command('output [type]')
-  .description('Download compile output files (bbl, log, aux, etc.)')
-  .option('-o, --output <path>', 'Output path')
-  .option('--list', 'List available output files')
-  .option('--project <name>', 'Project name or ID')
+  .command('settings [project]')
+  .description('Show or change project settings (compiler, TeX Live image, main document, spelling)')
+  .option('--set <key=value>', 'Change a setting: compiler, imageName, rootDoc, spellCheckLanguage or name (repeatable)',
+    (v: string, prev: string[]) => [...prev, v], [] as string[])
+  .option('--json', 'Output as JSON')
   .option('--cookie <session>', 'Session cookie override')
-  .action(async (type, options) => {
-    const spinner = ora('Compiling project...').start();
+  .action(async (project, options) => {
+    const spinner = ora('Fetching settings...').start();
     try {
       const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
 
-      // If type looks like a project name (contains spaces or is in project list), treat it as project
-      let actualType = type;
-      let projectArg = options.project;
-
-      if (type && !projectArg && !['bbl', 'log', 'aux', 'blg', 'pdf', 'out', 'fls', 'fdb_latexmk', 'stderr', 'pdfxref', 'chktex'].includes(type)) {
-        // Type might actually be a project name
-        const projects = await client.listProjects();
-        const matchedProject = projects.find(p => p.name === type || p.id === type);
-        if (matchedProject) {
-          projectArg = type;
-          actualType = undefined;
+      if (options.set.length > 0) {
+        const update: ProjectSettings = {};
+        for (const assignment of options.set as string[]) {
+          const eq = assignment.indexOf('=');
+          const key = eq > 0 ? SETTING_KEYS[assignment.slice(0, eq).toLowerCase()] : undefined;
+          if (!key) {
+            throw new Error(`Invalid --set ${assignment} (expected compiler, imageName, rootDoc, spellCheckLanguage or name =value)`);
+          }
+          const value = assignment.slice(eq + 1);
+          if (key === 'compiler' && !COMPILERS.includes(value as Compiler)) {
+            throw new Error(`Invalid compiler: ${value} (expected ${COMPILERS.join(', ')})`);
+          }
+          if (key === 'rootDoc') {
+            const entity = await client.findEntityByPath(proj.id, value);
+            if (!entity || entity.type !== 'doc') {
+              throw new Error(`Main document not found: ${value}`);
+            }
+            update.rootDocId = entity.id;
+          } else {
+            update[key] = value;
+          }
         }
+        spinner.text = 'Updating settings...';
+        await client.updateProjectSettings(proj.id, update);
       }
 
-      const proj = await resolveProject(client, projectArg);
-      const result = await client.compileWithOutputs(proj.id);
-
-      if (result.status !== 'success') {
-        spinner.warn(`Compilation ${result.status}, but output files may still be available`);
-      }
+      const settings = await client.getProjectSettings(proj.id);
+      spinner.stop();
 
-      if (options.list || !actualType) {
-        spinner.stop();
-        console.log(chalk.bold('Available output files:'));
-        for (const file of result.outputFiles) {
-          console.log(`  ${chalk.cyan(file.type.padEnd(12))} ${file.path}`);
-        }
-        console.log();
-        console.log(chalk.dim('Usage: olcli output <type>'));
-        console.log(chalk.dim('Example: olcli output bbl'));
+      if (options.json) {
+        console.log(JSON.stringify({ id: proj.id, ...settings }, null, 2));
         return;
       }
 
-      // Find matching output file
-      const outputFile = result.outputFiles.find(f => f.type === actualType || f.path.endsWith(`.${actualType}`));
-      if (!outputFile) {
-        spinner.fail(`Output file not found: ${actualType}`);
-        console.log(chalk.dim('Use --list to see available files'));
-        process.exit(1);
+      if (options.set.length > 0) {
+        console.log(chalk.green(`✓ Updated settings of ${settings.name ?? proj.name}`));
       }
-
-      spinner.text = `Downloading ${outputFile.path}...`;
-      const content = await client.downloadOutputFile(outputFile.url);
-      const outputPath = options.output || outputFile.path.replace('output.', '');
-
-      writeFileSync(outputPath, content);
-      spinner.succeed(`Downloaded: ${outputPath} (${(content.length / 1024).toFixed(1)} KB)`);
+      console.log(chalk.bold(`Project: ${settings.name ?? proj.name}`));
+      console.log(`  Compiler:     ${settings.compiler ?? chalk.dim('unknown')}`);
+      console.log(`  TeX Live:     ${settings.imageName ?? chalk.dim('default')}`);
+      console.log(`  Main doc:     ${settings.rootDocPath ?? settings.rootDocId ?? chalk.dim('not set')}`);
+      console.log(`  Spell check:  ${settings.spellCheckLanguage || chalk.dim('off')}`);
 
       setLastProject(proj.id);
     } catch (error: any) {
@@ -434,551 +728,2581 @@ program
   });
 
 // ─────────────────────────────────────────────────────────────────────────────
-// UPLOAD COMMANDS
+// TAG COMMANDS
 // ─────────────────────────────────────────────────────────────────────────────
 
-program
-  .command('upload <file> [project]')
-  .description('Upload a file to a project')
-  .option('--folder <id>', 'Target folder ID (default: root)')
+function findTag(tags: Tag[], nameOrId: string): Tag {
+  const tag = tags.find((t) => t.name === nameOrId) ?? tags.find((t) => t.id === nameOrId);
+  if (!tag) {
+    throw new Error(`Tag not found: ${nameOrId}`);
+  }
+  return tag;
+}
+
+/**
+ * Resolve several project names/IDs with a single project list fetch
+ */
+async function resolveProjects(client: OverleafClient, args: string[]): Promise<ResolvedProject[]> {
+  const projects = await client.listProjects({ includeArchived: true, includeTrashed: true });
+  return args.map((arg) => {
+    const proj = projects.find((p) => p.id === arg) ?? projects.find((p) => p.name === arg);
+    if (proj) return { id: proj.id, name: proj.name };
+    if (/^[a-f0-9]{24}$/i.test(arg)) return { id: arg, name: arg };
+    throw new Error(`Project not found: ${arg}`);
+  });
+}
+
+const tagCmd = program
+  .command('tag')
+  .description('Manage dashboard tags (project folders)');
+
+tagCmd
+  .command('list')
+  .description('List tags with their projects')
+  .option('--json', 'Output as JSON')
   .option('--cookie <session>', 'Session cookie override')
-  .action(async (file, project, options) => {
-    const spinner = ora('Uploading file...').start();
+  .action(async (options) => {
+    const spinner = ora('Fetching tags...').start();
     try {
       const client = await getClient(options.cookie);
-      const proj = await resolveProject(client, project);
+      const tags = await client.listTags();
+      spinner.stop();
 
-      if (!existsSync(file)) {
-        spinner.fail(`File not found: ${file}`);
-        process.exit(1);
+      if (options.json) {
+        console.log(JSON.stringify(tags, null, 2));
+        return;
       }
 
-      const content = readFileSync(file);
-      const fileName = basename(file);
-
-      // Pass folder ID or null for root folder (client will compute it)
-      const folderId = options.folder || null;
-
-      const result = await client.uploadFile(proj.id, folderId, fileName, content);
-
-      if (result.success) {
-        spinner.succeed(`Uploaded: ${fileName} → "${proj.name}"`);
-      } else {
-        spinner.fail(`Upload failed for: ${fileName}`);
-        process.exit(1);
+      if (tags.length === 0) {
+        console.log(chalk.yellow('No tags'));
+        return;
       }
 
-      setLastProject(proj.id);
+      const projects = await client.listProjects({ includeArchived: true, includeTrashed: true });
+      const names = new Map(projects.map((p) => [p.id, p.name]));
+      for (const tag of tags.sort((a, b) => a.name.localeCompare(b.name))) {
+        console.log(`${chalk.bold(tag.name)} ${chalk.dim(`(${tag.projectIds.length} project(s))`)}`);
+        for (const id of tag.projectIds) {
+          console.log(`  ${chalk.cyan(id)} - ${names.get(id) ?? chalk.dim('unknown')}`);
+        }
+      }
     } catch (error: any) {
       spinner.fail(`Failed: ${error.message}`);
       process.exit(1);
     }
   });
 
-// ─────────────────────────────────────────────────────────────────────────────
-// DELETE / RENAME COMMANDS
-// ─────────────────────────────────────────────────────────────────────────────
-// Use deleteByPath / renameByPath which resolve a path to an entity id via
-// /project/<id>/entities, then call the documented delete/rename endpoints.
-
-program
-  .command('delete <file> [project]')
-  .alias('rm')
-  .description('Delete a file or folder from a project')
+tagCmd
+  .command('create <name>')
+  .description('Create a tag')
+  .option('--color <hex>', 'Tag color, e.g. #43a047')
+  .option('--json', 'Output as JSON')
   .option('--cookie <session>', 'Session cookie override')
-  .action(async (file, project, options) => {
-    const spinner = ora('Deleting file...').start();
+  .action(async (name, options) => {
+    const spinner = ora('Creating tag...').start();
     try {
       const client = await getClient(options.cookie);
-      const proj = await resolveProject(client, project);
-      await client.deleteByPath(proj.id, file);
-      spinner.succeed(`Deleted: ${file}`);
-      setLastProject(proj.id);
+      const tag = await client.createTag(name, options.color);
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify(tag, null, 2));
+        return;
+      }
+      spinner.succeed(`Created tag ${tag.name}`);
     } catch (error: any) {
       spinner.fail(`Failed: ${error.message}`);
       process.exit(1);
     }
   });
 
-program
-  .command('rename <oldname> <newname> [project]')
-  .alias('mv')
-  .description('Rename a file or folder in a project')
+tagCmd
+  .command('add <tag> <projects...>')
+  .description('Add projects to a tag')
+  .option('--create', 'Create the tag if it does not exist')
   .option('--cookie <session>', 'Session cookie override')
-  .action(async (oldname, newname, project, options) => {
-    const spinner = ora('Renaming file...').start();
+  .action(async (tagArg, projectArgs, options) => {
+    const spinner = ora('Tagging projects...').start();
     try {
       const client = await getClient(options.cookie);
-      const proj = await resolveProject(client, project);
-      await client.renameByPath(proj.id, oldname, newname);
-      spinner.succeed(`Renamed: ${oldname} → ${newname}`);
-      setLastProject(proj.id);
+      const tags = await client.listTags();
+      const tag = options.create && !tags.some((t) => t.name === tagArg || t.id === tagArg)
+        ? await client.createTag(tagArg)
+        : findTag(tags, tagArg);
+      const projects = await resolveProjects(client, projectArgs);
+      await client.addProjectsToTag(tag.id, projects.map((p) => p.id));
+      spinner.succeed(`Added ${projects.length} project(s) to ${tag.name}`);
     } catch (error: any) {
       spinner.fail(`Failed: ${error.message}`);
       process.exit(1);
     }
   });
 
-// ─────────────────────────────────────────────────────────────────────────────
-// COMPILE COMMAND
-// ─────────────────────────────────────────────────────────────────────────────
-
-program
-  .command('compile [project]')
-  .description('Compile a project (trigger PDF generation)')
+tagCmd
+  .command('remove <tag> <projects...>')
+  .description('Remove projects from a tag')
   .option('--cookie <session>', 'Session cookie override')
-  .action(async (project, options) => {
-    const spinner = ora('Compiling...').start();
+  .action(async (tagArg, projectArgs, options) => {
+    const spinner = ora('Untagging projects...').start();
     try {
       const client = await getClient(options.cookie);
-      const proj = await resolveProject(client, project);
+      const tag = findTag(await client.listTags(), tagArg);
+      const projects = await resolveProjects(client, projectArgs);
+      await client.removeProjectsFromTag(tag.id, projects.map((p) => p.id));
+      spinner.succeed(`Removed ${projects.length} project(s) from ${tag.name}`);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
 
-      const result = await client.compileProject(proj.id);
-      spinner.succeed(`Compiled "${proj.name}"`);
-      console.log(chalk.dim(`PDF URL: ${result.pdfUrl}`));
+tagCmd
+  .command('rename <tag> <newName>')
+  .description('Rename a tag')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (tagArg, newName, options) => {
+    const spinner = ora('Renaming tag...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const tag = findTag(await client.listTags(), tagArg);
+      await client.renameTag(tag.id, newName);
+      spinner.succeed(`Renamed ${tag.name} to ${newName}`);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
 
-      setLastProject(proj.id);
+tagCmd
+  .command('delete <tag>')
+  .description('Delete a tag (its projects are kept)')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (tagArg, options) => {
+    const spinner = ora('Deleting tag...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const tag = findTag(await client.listTags(), tagArg);
+      await client.deleteTag(tag.id);
+      spinner.succeed(`Deleted tag ${tag.name}`);
     } catch (error: any) {
-      spinner.fail(`Compilation failed: ${error.message}`);
+      spinner.fail(`Failed: ${error.message}`);
       process.exit(1);
     }
   });
 
 // ─────────────────────────────────────────────────────────────────────────────
-// SYNC COMMANDS
+// SHARE COMMANDS
 // ─────────────────────────────────────────────────────────────────────────────
 
-program
-  .command('pull [project] [dir]')
-  .description('Download project files to local directory')
-  .option('--force', 'Overwrite local files even if newer')
-  .option('--cookie <session>', 'Session cookie override')
-  .action(async (project, dir, options) => {
-    let targetDir = dir || '.';
-    let projectId: string | undefined;
-    let projectName: string | undefined;
+const ACCESS_LEVELS: Record<string, AccessLevel> = {
+  'read-only': 'readOnly',
+  ro: 'readOnly',
+  readonly: 'readOnly',
+  'read-write': 'readAndWrite',
+  rw: 'readAndWrite',
+  readandwrite: 'readAndWrite',
+  review: 'review',
+};
+
+function parseAccessLevel(value: string): AccessLevel {
+  const level = ACCESS_LEVELS[value.toLowerCase()];
+  if (!level) {
+    throw new Error(`Invalid access level: ${value} (expected read-only, read-write or review)`);
+  }
+  return level;
+}
 
-    // Check for existing .olcli.json if no project specified
-    const metaPath = join(targetDir, '.olcli.json');
-    if (!project && existsSync(metaPath)) {
-      const meta = JSON.parse(readFileSync(metaPath, 'utf-8'));
-      projectId = meta.projectId;
-      projectName = meta.projectName;
-    } else if (!project) {
-      console.error(chalk.red('No project specified.'));
-      console.error('Usage: olcli pull <project> [dir]');
-      console.error('Or run from a directory with .olcli.json');
-      process.exit(1);
-    }
+const ACCESS_LABELS: Record<string, string> = {
+  owner: 'owner',
+  readOnly: 'read-only',
+  readAndWrite: 'read-write',
+  review: 'review',
+};
+
+async function findMember(client: OverleafClient, projectId: string, email: string): Promise<ProjectMember> {
+  const members = await client.getProjectMembers(projectId);
+  const member = members.find((m) => m.email.toLowerCase() === email.toLowerCase());
+  if (!member) {
+    throw new Error(`${email} is not a member of this project`);
+  }
+  return member;
+}
 
-    const spinner = ora('Fetching project...').start();
+const shareCmd = program
+  .command('share')
+  .description('Manage collaborators, invites and link sharing');
+
+shareCmd
+  .command('list [project]')
+  .description('List the owner, members and pending invites')
+  .option('--json', 'Output as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (project, options) => {
+    const spinner = ora('Fetching collaborators...').start();
     try {
       const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      const [members, invites, details] = await Promise.all([
+        client.getProjectMembers(proj.id),
+        client.getProjectInvites(proj.id),
+        client.getProjectById(proj.id, { includeArchived: true, includeTrashed: true }),
+      ]);
+      spinner.stop();
 
-      // Resolve project if needed
-      if (!projectId) {
-        let proj = await client.getProjectById(project!);
-        if (!proj) {
-          proj = await client.getProject(project!);
-        }
-        if (!proj) {
-          spinner.fail(`Project not found: ${project}`);
-          process.exit(1);
-        }
-        projectId = proj.id;
-        projectName = proj.name;
-        // Default directory is project name (sanitized) if not specified
-        if (!dir) {
-          targetDir = proj.name.replace(/[^a-zA-Z0-9-_]/g, '_');
-        }
+      if (options.json) {
+        console.log(JSON.stringify({ project: proj, owner: details?.owner, members, invites }, null, 2));
+        return;
       }
 
-      spinner.text = 'Downloading project...';
-      const zipBuffer = await client.downloadProject(projectId);
+      console.log(chalk.bold(`Project: ${details?.name ?? proj.name}`));
+      if (details?.owner) {
+        console.log(`  ${formatProjectUser(details.owner)}  ${chalk.dim('owner')}`);
+      }
+      for (const m of members) {
+        console.log(`  ${formatProjectUser(m)}  ${chalk.dim(ACCESS_LABELS[m.privileges] ?? m.privileges)}`);
+      }
+      if (invites.length > 0) {
+        console.log(chalk.bold('\nPending invites:'));
+        for (const i of invites) {
+          console.log(`  ${i.email}  ${chalk.dim(ACCESS_LABELS[i.privileges] ?? i.privileges)}`);
+        }
+      }
 
-      // Extract zip
-      spinner.text = 'Extracting files...';
-      const AdmZip = (await import('adm-zip')).default;
-      const zip = new AdmZip(zipBuffer);
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
 
-      // Create target directory
-      if (!existsSync(targetDir)) {
-        mkdirSync(targetDir, { recursive: true });
+shareCmd
+  .command('invite <email> [projects...]')
+  .description('Invite someone by email to one or more projects')
+  .option('--access <level>', 'read-only, read-write or review', 'read-write')
+  .option('--json', 'Output as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (email, projectArgs, options) => {
+    const spinner = ora('Sending invites...').start();
+    try {
+      const access = parseAccessLevel(options.access);
+      const client = await getClient(options.cookie);
+      const projects = projectArgs.length > 0
+        ? await resolveProjects(client, projectArgs)
+        : [await resolveProject(client)];
+
+      const results = [];
+      for (const proj of projects) {
+        spinner.text = `Inviting ${email} to ${proj.name}...`;
+        const invite = await client.inviteToProject(proj.id, email, access);
+        results.push({ project: proj, invite });
       }
 
-      // Get local file modification times for safety check
-      const { statSync } = await import('node:fs');
-      const localMetaPath = join(targetDir, '.olcli.json');
-      let lastPull: Date | undefined;
-      if (existsSync(localMetaPath)) {
-        const meta = JSON.parse(readFileSync(localMetaPath, 'utf-8'));
-        lastPull = meta.lastPull ? new Date(meta.lastPull) : undefined;
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify(results, null, 2));
+        return;
       }
+      spinner.succeed(`Invited ${email} (${ACCESS_LABELS[access]}) to ${projects.length} project(s)`);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
 
-      // Extract files with safety check
-      const entries = zip.getEntries();
-      let fileCount = 0;
-      let skippedCount = 0;
-      const skippedFiles: string[] = [];
-
-      for (const entry of entries) {
-        if (!entry.isDirectory) {
-          const filePath = join(targetDir, entry.entryName);
-          const fileDir = dirname(filePath);
+shareCmd
+  .command('access <email> <level> [project]')
+  .description("Change a member's access level (read-only, read-write, review)")
+  .option('--json', 'Output as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (email, level, project, options) => {
+    const spinner = ora('Updating access...').start();
+    try {
+      const access = parseAccessLevel(level);
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      const member = await findMember(client, proj.id, email);
+      await client.setMemberAccess(proj.id, member.id, access);
 
-          // Check if local file exists and is newer than last pull
-          if (!options.force && existsSync(filePath) && lastPull) {
-            try {
-              const stats = statSync(filePath);
-              if (stats.mtime > lastPull) {
-                // Local file is newer - skip unless --force
-                skippedCount++;
-                skippedFiles.push(entry.entryName);
-                continue;
-              }
-            } catch (e) {
-              // File doesn't exist or can't stat, proceed with download
-            }
-          }
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify({ project: proj, member: { ...member, privileges: access } }, null, 2));
+        return;
+      }
+      spinner.succeed(`${email} now has ${ACCESS_LABELS[access]} access to ${proj.name}`);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
 
-          if (!existsSync(fileDir)) {
-            mkdirSync(fileDir, { recursive: true });
-          }
-          writeFileSync(filePath, entry.getData());
-          fileCount++;
-        }
+shareCmd
+  .command('revoke <email> [project]')
+  .description('Remove a member or cancel a pending invite')
+  .option('--json', 'Output as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (email, project, options) => {
+    const spinner = ora('Revoking access...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      const sameEmail = (other: string) => other.toLowerCase() === email.toLowerCase();
+
+      const member = (await client.getProjectMembers(proj.id)).find((m) => sameEmail(m.email));
+      const invite = member ? undefined : (await client.getProjectInvites(proj.id)).find((i) => sameEmail(i.email));
+      if (member) {
+        await client.removeMember(proj.id, member.id);
+      } else if (invite) {
+        await client.revokeInvite(proj.id, invite.id);
+      } else {
+        throw new Error(`${email} is neither a member of nor invited to ${proj.name}`);
       }
 
-      // Save project metadata (with manifest of remote files for sync deletion tracking)
-      const remoteManifest: string[] = [];
-      for (const e of entries) {
-        if (!e.isDirectory) remoteManifest.push(e.entryName);
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify({ project: proj, removed: member ? 'member' : 'invite', email }, null, 2));
+        return;
       }
-      writeFileSync(join(targetDir, '.olcli.json'), JSON.stringify({
-        projectId,
-        projectName,
-        lastPull: new Date().toISOString(),
-        remoteManifest
-      }, null, 2));
+      spinner.succeed(member ? `Removed ${email} from ${proj.name}` : `Cancelled the invite for ${email}`);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
 
-      if (skippedCount > 0) {
-        spinner.warn(`Downloaded ${fileCount} files, skipped ${skippedCount} locally modified files`);
-        console.log(chalk.yellow('  Skipped (local is newer):'));
-        for (const f of skippedFiles.slice(0, 5)) {
-          console.log(chalk.dim(`    ${f}`));
+shareCmd
+  .command('transfer <email> [project]')
+  .description('Transfer ownership to an existing member (asks for confirmation)')
+  .option('-y, --yes', 'Do not ask for confirmation')
+  .option('--json', 'Output as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (email, project, options) => {
+    const spinner = ora('Fetching collaborators...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      const member = await findMember(client, proj.id, email);
+      spinner.stop();
+
+      if (!options.yes) {
+        if (!process.stdin.isTTY) {
+          throw new Error('Refusing to transfer ownership without confirmation; pass --yes to skip the prompt');
         }
-        if (skippedFiles.length > 5) {
-          console.log(chalk.dim(`    ... and ${skippedFiles.length - 5} more`));
+        if (!(await confirm(`Make ${email} the owner of ${chalk.bold(proj.name)}? You will keep read-write access.`))) {
+          console.log('Aborted');
+          return;
         }
-        console.log(chalk.dim('  Use --force to overwrite'));
-      } else {
-        spinner.succeed(`Downloaded ${fileCount} files to ${targetDir}/`);
       }
 
-      setLastProject(projectId);
+      spinner.start('Transferring ownership...');
+      await client.transferOwnership(proj.id, member.id);
+
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify({ project: proj, owner: member }, null, 2));
+        return;
+      }
+      spinner.succeed(`${email} now owns ${proj.name}`);
     } catch (error: any) {
       spinner.fail(`Failed: ${error.message}`);
       process.exit(1);
     }
   });
 
-program
-  .command('push [dir]')
-  .description('Upload local changes to Overleaf project')
-  .option('--project <name>', 'Project name or ID (overrides .olcli.json)')
-  .option('--all', 'Upload all files (not just changed)')
-  .option('--dry-run', 'Show what would be uploaded without uploading')
-  .option('--probe-folder', 'Probe for correct folder ID (use if uploads fail with folder_not_found)')
-  .option('--no-default-ignore', 'Disable built-in LaTeX artifact ignore list (only .olignore applies)')
-  .option('--no-ignore', 'Disable all ignore filtering (escape hatch — uploads everything)')
-  .option('--show-ignored', 'Print files skipped by ignore rules')
+shareCmd
+  .command('link [project]')
+  .description('Show link-sharing URLs, or turn link sharing on/off')
+  .option('--enable', 'Turn link sharing on')
+  .option('--disable', 'Turn link sharing off')
+  .option('--json', 'Output as JSON')
   .option('--cookie <session>', 'Session cookie override')
-  .action(async (dir, options) => {
-    const targetDir = dir || '.';
-    const metaPath = join(targetDir, '.olcli.json');
-
-    // Check for project metadata
-    let projectId: string | undefined;
-    let projectName: string | undefined;
-    let lastPull: Date | undefined;
-    let rootFolderId: string | undefined;
+  .action(async (project, options) => {
+    const spinner = ora('Fetching link sharing...').start();
+    try {
+      if (options.enable && options.disable) {
+        throw new Error('Use either --enable or --disable');
+      }
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      if (options.enable || options.disable) {
+        spinner.text = options.enable ? 'Enabling link sharing...' : 'Disabling link sharing...';
+        await client.setLinkSharing(proj.id, !!options.enable);
+      }
+      const sharing = await client.getLinkSharing(proj.id);
+      spinner.stop();
 
-    if (existsSync(metaPath)) {
-      const meta = JSON.parse(readFileSync(metaPath, 'utf-8'));
-      projectId = meta.projectId;
-      projectName = meta.projectName;
-      lastPull = meta.lastPull ? new Date(meta.lastPull) : undefined;
-      rootFolderId = meta.rootFolderId;
-    }
+      if (options.json) {
+        console.log(JSON.stringify({ project: proj, ...sharing }, null, 2));
+        return;
+      }
 
-    if (options.project) {
-      // Override with command line option
-      projectId = undefined;
-      projectName = options.project;
-    }
+      console.log(`Link sharing for ${chalk.bold(proj.name)} is ${sharing.enabled ? chalk.green('on') : chalk.yellow('off')}`);
+      if (sharing.enabled) {
+        if (sharing.readAndWriteUrl) console.log(`  Edit: ${sharing.readAndWriteUrl}`);
+        if (sharing.readOnlyUrl) console.log(`  View: ${sharing.readOnlyUrl}`);
+      }
 
-    if (!projectId && !projectName) {
-      console.error(chalk.red('No project specified.'));
-      console.error('Either run from a directory with .olcli.json or use --project');
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
       process.exit(1);
     }
+  });
 
-    const spinner = ora('Connecting...').start();
+// ─────────────────────────────────────────────────────────────────────────────
+// REVIEW COMMANDS
+// ─────────────────────────────────────────────────────────────────────────────
+
+function commentAuthor(user: ProjectUser | undefined): string {
+  if (!user) return 'unknown';
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || 'unknown';
+}
+
+/**
+ * Download the given docs (concurrently) with their project paths
+ */
+async function loadDocs(client: OverleafClient, projectId: string, docIds: string[]): Promise<Map<string, { path?: string; text?: string }>> {
+  const info = await client.getProjectInfo(projectId);
+  const paths = docPaths(info.rootFolder?.[0]);
+  const texts = await mapConcurrent(docIds, 4, async (docId) =>
+    (await client.downloadFile(projectId, docId, 'doc')).toString('utf-8'));
+
+  const docs = new Map<string, { path?: string; text?: string }>();
+  docIds.forEach((docId, i) => docs.set(docId, { path: paths.get(docId), text: texts[i] }));
+  return docs;
+}
+
+/**
+ * Load the comment threads of a project with their anchors, file paths and
+ * line numbers (only docs with comments are downloaded)
+ */
+async function loadComments(client: OverleafClient, projectId: string): Promise<ReviewComment[]> {
+  const [threads, ranges] = await Promise.all([
+    client.getCommentThreads(projectId),
+    client.getDocRanges(projectId),
+  ]);
+  const docIds = ranges.filter((r) => r.comments.length > 0).map((r) => r.docId);
+  return joinComments(threads, ranges, await loadDocs(client, projectId, docIds));
+}
+
+const commentsCmd = program
+  .command('comments')
+  .description('Read and answer review comments');
+
+commentsCmd
+  .command('list [project]')
+  .description('List comment threads as file:line: author: text')
+  .option('--unresolved', 'Only show open threads')
+  .option('--file <path>', 'Only show threads in this file')
+  .option('--json', 'Output as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (project, options) => {
+    const spinner = ora('Fetching comments...').start();
     try {
       const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      const root = findLinkedRoot(proj.id);
 
-      // Resolve project if needed
-      if (!projectId) {
-        let proj = await client.getProjectById(projectName!);
-        if (!proj) {
-          proj = await client.getProject(projectName!);
-        }
-        if (!proj) {
-          spinner.fail(`Project not found: ${projectName}`);
-          process.exit(1);
-        }
-        projectId = proj.id;
-        projectName = proj.name;
+      let comments = await loadComments(client, proj.id);
+      if (options.unresolved) comments = comments.filter((c) => !c.resolved);
+      if (options.file) {
+        const file = projectPathFor(options.file, root);
+        comments = comments.filter((c) => c.file === file);
       }
+      spinner.stop();
 
-      spinner.text = 'Scanning files...';
+      if (options.json) {
+        console.log(JSON.stringify(comments, null, 2));
+        setLastProject(proj.id);
+        return;
+      }
 
-      // Build ignore context (defaults + .olignore + .olignore.local)
-      const ignoreCtx = loadIgnore(targetDir, {
-        noDefaults: options.defaultIgnore === false,
-        disableAll: options.ignore === false,
-      });
+      if (comments.length === 0) {
+        console.log(chalk.dim(options.unresolved ? 'No open comments' : 'No comments'));
+        setLastProject(proj.id);
+        return;
+      }
 
-      // Get list of files to upload
-      const { readdirSync, statSync } = await import('node:fs');
+      for (const c of comments) {
+        const [first, ...replies] = c.messages;
+        const file = localLogPath(c.file, root) ?? '(unknown file)';
+        const location = c.line !== undefined ? `${file}:${c.line}` : file;
+        const state = c.resolved ? chalk.green(' (resolved)') : '';
+        console.log(`${location}: ${chalk.bold(commentAuthor(first.user))}: ${first.content}` +
+          chalk.dim(` [${shortId(c.threadId)}]`) + state);
+        const quote = c.quote.replace(/\s+/g, ' ').trim();
+        if (quote) {
+          console.log(chalk.dim(`    > ${quote.length > 72 ? `${quote.slice(0, 71)}…` : quote}`));
+        }
+        for (const reply of replies) {
+          console.log(`    ${chalk.bold(commentAuthor(reply.user))}: ${reply.content}`);
+        }
+      }
 
-      const filesToUpload: { path: string; relativePath: string }[] = [];
-      const filesIgnored: string[] = [];
+      const open = comments.filter((c) => !c.resolved).length;
+      console.log(chalk.dim(`\n${comments.length} thread(s), ${open} open`));
 
-      function scanDir(currentDir: string, relativeBase: string = '') {
-        const entries = readdirSync(currentDir, { withFileTypes: true });
-        // Pre-compute sibling .tex set for the PDF special rule.
-        const texSiblings = buildTexSiblingSet(
-          entries.filter((e) => !e.isDirectory()).map((e) => e.name),
-        );
-        for (const entry of entries) {
-          // Skip hidden files and .olcli.json (always — predates ignore subsystem)
-          if (entry.name.startsWith('.')) continue;
-
-          const fullPath = join(currentDir, entry.name);
-          const relativePath = relativeBase ? `${relativeBase}/${entry.name}` : entry.name;
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
 
-          if (entry.isDirectory()) {
-            // Test directory ignore (gitignore semantics: trailing slash matches dir)
-            if (shouldIgnore(`${relativePath}/`, ignoreCtx)) {
-              filesIgnored.push(`${relativePath}/`);
-              continue;
-            }
-            scanDir(fullPath, relativePath);
-          } else {
-            if (shouldIgnore(relativePath, ignoreCtx, texSiblings)) {
-              filesIgnored.push(relativePath);
-              continue;
-            }
-            // Check if file is newer than last pull (unless --all)
-            if (options.all || !lastPull) {
-              filesToUpload.push({ path: fullPath, relativePath });
-            } else {
-              const stats = statSync(fullPath);
-              if (stats.mtime > lastPull) {
-                filesToUpload.push({ path: fullPath, relativePath });
-              }
-            }
-          }
-        }
+commentsCmd
+  .command('add <position> <message> [project]')
+  .description('Comment on <file>:<line> (the whole line, or --text within it)')
+  .option('--text <text>', 'Highlight this text of the line instead of the whole line')
+  .option('--json', 'Output as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (position: string, message: string, project, options) => {
+    const spinner = ora('Adding comment...').start();
+    try {
+      const match = position.match(/^(.+):(\d+)$/);
+      if (!match) {
+        throw new Error(`Invalid position: ${position} (expected <file>:<line>)`);
       }
+      const lineNo = Number(match[2]);
 
-      scanDir(targetDir);
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      const file = projectPathFor(match[1], findLinkedRoot(proj.id));
 
-      if (options.showIgnored && filesIgnored.length > 0) {
-        spinner.stop();
-        console.log(chalk.bold(chalk.dim(`Ignored ${filesIgnored.length} file(s)/dir(s):`)));
-        for (const p of filesIgnored) {
-          console.log(chalk.dim(`  ${p}`));
-        }
-        spinner.start('Scanning files...');
+      const entity = await client.findEntityByPath(proj.id, file);
+      if (!entity || entity.type !== 'doc') {
+        throw new Error(`Not an editable doc: ${file}`);
       }
-
-      if (filesToUpload.length === 0) {
-        spinner.info('No files to upload');
-        return;
+      const lines = (await client.downloadFile(proj.id, entity.id, 'doc')).toString('utf-8').split('\n');
+      if (lineNo < 1 || lineNo > lines.length) {
+        throw new Error(`${file} has ${lines.length} line(s)`);
       }
 
-      if (options.dryRun) {
-        spinner.stop();
-        console.log(chalk.bold(`Would upload ${filesToUpload.length} file(s) to "${projectName}":`));
-        for (const f of filesToUpload) {
-          console.log(`  ${chalk.cyan(f.relativePath)}`);
-        }
-        return;
+      // Anchor: --text within the line, or the line without its indentation
+      const line = lines[lineNo - 1];
+      const anchor = options.text ?? line.trim();
+      const column = options.text ? line.indexOf(options.text) : line.length - line.trimStart().length;
+      if (!anchor || column === -1) {
+        throw new Error(options.text ? `"${options.text}" is not on line ${lineNo} of ${file}` : `Line ${lineNo} of ${file} is empty`);
       }
-
-      // If --probe-folder is set, or if we don't have a cached rootFolderId, try probing
-      if (options.probeFolder && !rootFolderId) {
-        spinner.text = 'Probing for correct folder ID...';
-        rootFolderId = await client.probeRootFolderId(projectId!) ?? undefined;
-        if (rootFolderId) {
-          // Save the discovered folder ID
-          if (existsSync(metaPath)) {
-            const meta = JSON.parse(readFileSync(metaPath, 'utf-8'));
-            meta.rootFolderId = rootFolderId;
-            writeFileSync(metaPath, JSON.stringify(meta, null, 2));
-          }
-          spinner.succeed(`Found root folder ID: ${rootFolderId}`);
-          spinner.start(`Uploading ${filesToUpload.length} file(s)...`);
-        } else {
-          spinner.fail('Could not find valid root folder ID');
-          console.log(chalk.yellow('Try manually specifying rootFolderId in .olcli.json'));
-          process.exit(1);
-        }
+      const offset = lines.slice(0, lineNo - 1).reduce((total, l) => total + l.length + 1, 0) + column;
+
+      // Anchor first, like the editor does: a range that can't be placed
+      // leaves nothing behind, and a failed message takes the range with it
+      const threadId = newThreadId();
+      const session = await client.openRealtimeSession(proj.id);
+      try {
+        await session.addCommentRange(entity.id, offset, anchor, threadId);
+      } finally {
+        await session.disconnect();
+      }
+      try {
+        await client.addCommentMessage(proj.id, threadId, message);
+      } catch (error) {
+        await client.deleteThread(proj.id, entity.id, threadId).catch(() => { /* best effort */ });
+        throw error;
       }
 
-      // Fetch folder tree once so uploads go into correct subfolders
-      spinner.text = 'Resolving folder structure...';
-      let folderTree = await client.getFolderTreeFromSocket(projectId!);
-      if (!folderTree) {
-        // Fallback: build minimal tree with just root
-        const resolvedRootId = rootFolderId || await client.getRootFolderId(projectId!);
-        folderTree = { '': resolvedRootId };
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify({ threadId, file, line: lineNo, quote: anchor, message }, null, 2));
+      } else {
+        spinner.succeed(`Commented on ${file}:${lineNo} [${shortId(threadId)}]`);
       }
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
 
-      spinner.text = `Uploading ${filesToUpload.length} file(s)...`;
+commentsCmd
+  .command('reply <thread> <message> [project]')
+  .description('Reply to a comment thread (id or the end of it)')
+  .option('--reopen', 'Also reopen the thread if it is resolved')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (threadArg: string, message: string, project, options) => {
+    const spinner = ora('Sending reply...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      const thread = findThread(await loadComments(client, proj.id), threadArg);
 
-      let uploaded = 0;
-      let failed = 0;
-      let folderNotFoundCount = 0;
+      await client.addCommentMessage(proj.id, thread.threadId, message);
+      if (options.reopen && thread.resolved) {
+        await client.reopenThread(proj.id, thread.docId, thread.threadId);
+      }
+      const where = thread.file ? `${thread.file}:${thread.line} ` : '';
+      spinner.succeed(`Replied to ${where}[${shortId(thread.threadId)}]`);
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
 
-      for (const file of filesToUpload) {
-        try {
-          const content = readFileSync(file.path);
-          await client.uploadFile(projectId!, rootFolderId || null, file.relativePath, content, folderTree);
-          uploaded++;
-          spinner.text = `Uploading... (${uploaded}/${filesToUpload.length})`;
-        } catch (error: any) {
-          console.error(chalk.yellow(`\n  Warning: Failed to upload ${file.relativePath}: ${error.message}`));
-          failed++;
-          if (error.message.includes('folder_not_found')) {
-            folderNotFoundCount++;
+for (const [name, description] of [
+  ['resolve', 'Mark a comment thread as resolved'],
+  ['reopen', 'Reopen a resolved comment thread'],
+] as const) {
+  commentsCmd
+    .command(`${name} <threads...>`)
+    .description(`${description} (ids or their ends)`)
+    .option('--project <name>', 'Project name or ID')
+    .option('--cookie <session>', 'Session cookie override')
+    .action(async (threadArgs: string[], options) => {
+      const spinner = ora(name === 'resolve' ? 'Resolving...' : 'Reopening...').start();
+      try {
+        const client = await getClient(options.cookie);
+        const proj = await resolveProject(client, options.project);
+        const comments = await loadComments(client, proj.id);
+        const threads = threadArgs.map((id) => findThread(comments, id));
+
+        for (const thread of threads) {
+          if (name === 'resolve') {
+            await client.resolveThread(proj.id, thread.docId, thread.threadId);
+          } else {
+            await client.reopenThread(proj.id, thread.docId, thread.threadId);
           }
         }
+        spinner.succeed(`${name === 'resolve' ? 'Resolved' : 'Reopened'} ${threads.length} thread(s)`);
+        setLastProject(proj.id);
+      } catch (error: any) {
+        spinner.fail(`Failed: ${error.message}`);
+        process.exit(1);
       }
+    });
+}
 
-      // Update last push time
-      if (existsSync(metaPath)) {
-        const meta = JSON.parse(readFileSync(metaPath, 'utf-8'));
-        meta.lastPush = new Date().toISOString();
-        writeFileSync(metaPath, JSON.stringify(meta, null, 2));
-      }
+commentsCmd
+  .command('delete <thread> [project]')
+  .description('Delete a comment thread and all its replies (asks for confirmation)')
+  .option('-y, --yes', 'Do not ask for confirmation')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (threadArg: string, project, options) => {
+    const spinner = ora('Fetching comments...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      const thread = findThread(await loadComments(client, proj.id), threadArg);
+      spinner.stop();
 
-      if (failed > 0) {
-        spinner.warn(`Uploaded ${uploaded} file(s), ${failed} failed`);
-        if (folderNotFoundCount > 0 && !rootFolderId) {
-          console.log(chalk.yellow('  Tip: Try running with --probe-folder to find the correct folder ID'));
+      const summary = `${thread.file ?? 'unknown file'}:${thread.line ?? '?'}: ${thread.messages[0].content}`;
+      if (!options.yes) {
+        if (!process.stdin.isTTY) {
+          throw new Error('Refusing to delete without confirmation; pass --yes to skip the prompt');
+        }
+        if (!(await confirm(`Delete the thread "${summary}" with ${thread.messages.length} message(s)?`))) {
+          console.log('Aborted');
+          return;
         }
-      } else {
-        spinner.succeed(`Uploaded ${uploaded} file(s) to "${projectName}"`);
       }
 
-      setLastProject(projectId!);
+      spinner.start('Deleting...');
+      await client.deleteThread(proj.id, thread.docId, thread.threadId);
+      spinner.succeed(`Deleted thread [${shortId(thread.threadId)}]`);
+      setLastProject(proj.id);
     } catch (error: any) {
       spinner.fail(`Failed: ${error.message}`);
       process.exit(1);
     }
   });
 
-program
-  .command('sync [dir]')
-  .description('Pull then push (bidirectional sync, propagates local deletions)')
-  .option('--project <name>', 'Project name or ID')
-  .option('--verbose', 'Show detailed file operations')
-  .option('--no-delete', 'Do not propagate local deletions to the remote (safer)')
-  .option('--dry-run', 'Show what would change without applying')
-  .option('--no-default-ignore', 'Disable built-in LaTeX artifact ignore list (only .olignore applies)')
-  .option('--no-ignore', 'Disable all ignore filtering (escape hatch — uploads everything)')
-  .option('--show-ignored', 'Print files skipped by ignore rules')
+/**
+ * Load the pending tracked changes of a project with authors, file paths,
+ * line numbers and context (only docs with changes are downloaded)
+ */
+async function loadChanges(client: OverleafClient, projectId: string): Promise<ReviewChange[]> {
+  const [ranges, users] = await Promise.all([
+    client.getDocRanges(projectId),
+    // Authors are a nicety; ids are shown without them
+    client.getTrackChangesUsers(projectId).catch(() => []),
+  ]);
+  const docIds = ranges.filter((r) => r.changes.length > 0).map((r) => r.docId);
+  const byId = new Map(users.filter((u) => u.id).map((u) => [u.id!, u]));
+  return joinChanges(ranges, await loadDocs(client, projectId, docIds), byId);
+}
+
+/**
+ * Filter changes by --file and --author (name, email or user id)
+ */
+function filterChanges(changes: ReviewChange[], options: { file?: string; author?: string }, root: string | undefined): ReviewChange[] {
+  let result = changes;
+  if (options.file) {
+    const file = projectPathFor(options.file, root);
+    result = result.filter((c) => c.file === file);
+  }
+  if (options.author) {
+    const who = options.author.toLowerCase();
+    result = result.filter((c) => {
+      const names = [c.userId, c.author?.email, commentAuthor(c.author)];
+      return names.some((n) => n?.toLowerCase() === who);
+    });
+  }
+  return result;
+}
+
+const changesCmd = program
+  .command('changes')
+  .description('List, accept and reject tracked changes');
+
+changesCmd
+  .command('list [project]')
+  .description('List pending tracked changes with author, time and context')
+  .option('--file <path>', 'Only show changes in this file')
+  .option('--author <who>', 'Only show changes by this author (name or email)')
+  .option('--json', 'Output as JSON')
   .option('--cookie <session>', 'Session cookie override')
-  .action(async (dir, options) => {
-    const targetDir = dir || '.';
+  .action(async (project, options) => {
+    const spinner = ora('Fetching tracked changes...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      const root = findLinkedRoot(proj.id);
+      const changes = filterChanges(await loadChanges(client, proj.id), options, root);
+      spinner.stop();
 
-    // Check if this is an existing project directory
-    const metaPath = join(targetDir, '.olcli.json');
-    let projectId: string | undefined;
-    let projectName: string | undefined;
+      if (options.json) {
+        console.log(JSON.stringify(changes, null, 2));
+        setLastProject(proj.id);
+        return;
+      }
 
-    if (existsSync(metaPath)) {
-      const meta = JSON.parse(readFileSync(metaPath, 'utf-8'));
-      projectId = meta.projectId;
-      projectName = meta.projectName;
-    }
+      if (changes.length === 0) {
+        console.log(chalk.dim('No pending changes'));
+        setLastProject(proj.id);
+        return;
+      }
 
-    if (options.project) {
-      projectName = options.project;
-      projectId = undefined;
-    }
+      for (const c of changes) {
+        const file = localLogPath(c.file, root) ?? '(unknown file)';
+        const location = c.line !== undefined ? `${file}:${c.line}` : file;
+        const when = c.timestamp ? `, ${new Date(c.timestamp).toLocaleString()}` : '';
+        const what = c.type === 'insert' ? chalk.green('inserted') : chalk.red('deleted');
+        const text = c.text.replace(/\s+/g, ' ');
+        console.log(`${location}: ${chalk.bold(commentAuthor(c.author))}${chalk.dim(when)}: ${what} "${text}"` +
+          chalk.dim(` [${shortId(c.id)}]`));
+        if (c.context) {
+          const marked = c.type === 'insert' ? chalk.green(`{+${text}+}`) : chalk.red(`[-${text}-]`);
+          console.log(chalk.dim(`    ${c.context.before}`) + marked + chalk.dim(c.context.after));
+        }
+      }
 
-    if (!projectId && !projectName) {
-      console.error(chalk.red('No project specified.'));
-      console.error('Either run from a directory with .olcli.json or use --project');
+      const files = new Set(changes.map((c) => c.file)).size;
+      console.log(chalk.dim(`\n${changes.length} change(s) in ${files} file(s)`));
+
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
       process.exit(1);
     }
+  });
 
-    const spinner = ora('Connecting...').start();
-    try {
-      const client = await getClient(options.cookie);
+for (const [name, description] of [
+  ['accept', 'Accept tracked changes (insertions stay, deletions become final)'],
+  ['reject', 'Reject tracked changes (insertions are removed, deleted text comes back)'],
+] as const) {
+  changesCmd
+    .command(`${name} [ids...]`)
+    .description(description)
+    .option('--author <who>', `${name === 'accept' ? 'Accept' : 'Reject'} every change by this author (name or email)`)
+    .option('--all', `${name === 'accept' ? 'Accept' : 'Reject'} every pending change`)
+    .option('--file <path>', 'Only changes in this file')
+    .option('--project <name>', 'Project name or ID')
+    .option('--json', 'Output as JSON')
+    .option('--cookie <session>', 'Session cookie override')
+    .action(async (ids: string[], options) => {
+      const spinner = ora('Fetching tracked changes...').start();
+      try {
+        if (ids.length === 0 && !options.author && !options.all) {
+          throw new Error('Pass change ids, --author <who> or --all');
+        }
+        const client = await getClient(options.cookie);
+        const proj = await resolveProject(client, options.project);
+        const root = findLinkedRoot(proj.id);
+
+        const pending = await loadChanges(client, proj.id);
+        const selected = ids.length > 0
+          ? filterChanges(findChanges(pending, ids), options, root)
+          : filterChanges(pending, options, root);
+        if (selected.length === 0) {
+          spinner.info('No matching changes');
+          return;
+        }
 
-      // Resolve project
-      if (!projectId) {
-        let proj = await client.getProjectById(projectName!);
-        if (!proj) {
-          proj = await client.getProject(projectName!);
+        // One request (accept) or one operation (reject) per doc
+        const byDoc = new Map<string, ReviewChange[]>();
+        for (const change of selected) {
+          byDoc.set(change.docId, [...(byDoc.get(change.docId) ?? []), change]);
         }
-        if (!proj) {
-          spinner.fail(`Project not found: ${projectName}`);
-          process.exit(1);
+        spinner.text = `${name === 'accept' ? 'Accepting' : 'Rejecting'} ${selected.length} change(s)...`;
+        if (name === 'accept') {
+          for (const [docId, changes] of byDoc) {
+            await client.acceptChanges(proj.id, docId, changes.map((c) => c.id));
+          }
+        } else {
+          const session = await client.openRealtimeSession(proj.id);
+          try {
+            for (const [docId, changes] of byDoc) {
+              await session.rejectChanges(docId, changes);
+            }
+          } finally {
+            await session.disconnect();
+          }
         }
-        projectId = proj.id;
-        projectName = proj.name;
+
+        if (options.json) {
+          spinner.stop();
+          console.log(JSON.stringify({ [name === 'accept' ? 'accepted' : 'rejected']: selected.map((c) => c.id) }, null, 2));
+        } else {
+          spinner.succeed(`${name === 'accept' ? 'Accepted' : 'Rejected'} ${selected.length} change(s) in ${byDoc.size} file(s)`);
+        }
+        setLastProject(proj.id);
+      } catch (error: any) {
+        spinner.fail(`Failed: ${error.message}`);
+        process.exit(1);
       }
+    });
+}
 
-      // Step 1: Download current state
-      spinner.text = 'Downloading project...';
-      const zipBuffer = await client.downloadProject(projectId);
+// ─────────────────────────────────────────────────────────────────────────────
+// CHAT COMMANDS
+// ─────────────────────────────────────────────────────────────────────────────
 
-      const AdmZip = (await import('adm-zip')).default;
-      const zip = new AdmZip(zipBuffer);
+const CHAT_PAGE_SIZE = 50;
+const CHAT_RECONNECT_MS = 5000;
 
-      // Create target directory
-      if (!existsSync(targetDir)) {
-        mkdirSync(targetDir, { recursive: true });
-      }
+function printChatMessage(message: ChatMessage): void {
+  const [first, ...rest] = message.content.split('\n');
+  console.log(`${chalk.dim(new Date(message.timestamp).toLocaleString())} ${chalk.bold(commentAuthor(message.user))}: ${first}`);
+  for (const line of rest) console.log(`    ${line}`);
+}
 
-      // Build ignore context (defaults + .olignore + .olignore.local)
-      const ignoreCtx = loadIgnore(targetDir, {
-        noDefaults: options.defaultIgnore === false,
-        disableAll: options.ignore === false,
-      });
+/**
+ * Fetch up to `limit` chat messages before `before` (or the newest),
+ * paging back as needed; returned oldest first. `more` is set when the
+ * last page came back full, so older messages may exist.
+ */
+async function fetchChat(
+  client: OverleafClient,
+  projectId: string,
+  limit: number,
+  before?: number
+): Promise<{ messages: ChatMessage[]; more: boolean }> {
+  const messages: ChatMessage[] = [];
+  let cursor = before;
+  let more = false;
+  while (messages.length < limit) {
+    const wanted = Math.min(CHAT_PAGE_SIZE, limit - messages.length);
+    const page = await client.getChatMessages(projectId, { limit: wanted, before: cursor });
+    messages.push(...page);
+    more = page.length === wanted;
+    if (!more) break;
+    cursor = page[page.length - 1].timestamp;
+  }
+  return { messages: messages.reverse(), more };
+}
 
-      // Track local modifications
-      const localFiles = new Map<string, { mtime: Date; content: Buffer }>();
-      const filesIgnored: string[] = [];
-      const { readdirSync, statSync } = await import('node:fs');
+/**
+ * Parse `--before`: a timestamp in milliseconds (as printed by `chat`) or a date
+ */
+function parseChatBefore(value: string): number {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (!Number.isFinite(time)) {
+    throw new Error(`Invalid --before: ${value} (expected a timestamp or date)`);
+  }
+  return time;
+}
 
-      function scanLocalFiles(currentDir: string, relativeBase: string = '') {
-        if (!existsSync(currentDir)) return;
-        const entries = readdirSync(currentDir, { withFileTypes: true });
-        const texSiblings = buildTexSiblingSet(
-          entries.filter((e) => !e.isDirectory()).map((e) => e.name),
-        );
-        for (const entry of entries) {
-          if (entry.name.startsWith('.')) continue;
-          const fullPath = join(currentDir, entry.name);
-          const relativePath = relativeBase ? `${relativeBase}/${entry.name}` : entry.name;
-          if (entry.isDirectory()) {
+/**
+ * Print new chat messages as they arrive over the collaboration socket,
+ * reconnecting (and catching up over HTTP) when the connection drops
+ */
+async function followChat(client: OverleafClient, projectId: string, since: number, json: boolean): Promise<void> {
+  let last = since;
+  const show = (message: ChatMessage) => {
+    if (message.timestamp <= last) return;
+    last = message.timestamp;
+    if (json) console.log(JSON.stringify(message));
+    else printChatMessage(message);
+  };
+
+  let session: RealtimeSession | undefined;
+  let stopped = false;
+  process.once('SIGINT', async () => {
+    stopped = true;
+    await session?.disconnect();
+    process.exit(0);
+  });
+
+  while (!stopped) {
+    try {
+      session = await client.openRealtimeSession(projectId);
+      const closed = new Promise<Error>((resolve) => session!.on('disconnect', resolve));
+      session.on('new-chat-message', (data: any) => show(OverleafClient.toMessage(data)));
+      // Messages sent while we were not connected
+      for (const message of (await fetchChat(client, projectId, CHAT_PAGE_SIZE)).messages) show(message);
+      const error = await closed;
+      if (!stopped && !json) console.error(chalk.dim(`Disconnected (${error.message}); reconnecting...`));
+    } catch (error: any) {
+      await session?.disconnect();
+      if (!json) console.error(chalk.dim(`Connection failed (${error.message}); retrying...`));
+    }
+    if (!stopped) await new Promise((resolve) => setTimeout(resolve, CHAT_RECONNECT_MS));
+  }
+}
+
+const chatCmd = program
+  .command('chat')
+  .description('Read and post to the project chat');
+
+// Default subcommand, so `olcli chat [project]` shows the chat
+chatCmd
+  .command('show [project]', { isDefault: true })
+  .description('Show the project chat (newest last)')
+  .option('-n, --limit <count>', 'Number of messages to show', '20')
+  .option('--before <when>', 'Show messages before this timestamp or date (paging)')
+  .option('--all', 'Show the whole chat history')
+  .option('-f, --follow', 'Keep running and print new messages as they arrive')
+  .option('--json', 'Output as JSON (one message per line with --follow)')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (project, options) => {
+    const spinner = ora('Fetching chat...').start();
+    try {
+      const limit = options.all ? Infinity : Number(options.limit);
+      if (!options.all && (!Number.isInteger(limit) || limit < 0)) {
+        throw new Error(`Invalid --limit: ${options.limit}`);
+      }
+      const before = options.before !== undefined ? parseChatBefore(options.before) : undefined;
+
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      const { messages, more } = await fetchChat(client, proj.id, limit, before);
+      spinner.stop();
+      setLastProject(proj.id);
+
+      if (options.json && !options.follow) {
+        console.log(JSON.stringify(messages, null, 2));
+        return;
+      }
+
+      for (const message of messages) {
+        if (options.json) console.log(JSON.stringify(message));
+        else printChatMessage(message);
+      }
+      if (!options.json && more && messages.length > 0) {
+        console.log(chalk.dim(`Older messages: olcli chat --before ${messages[0].timestamp}`));
+      }
+      if (!options.json && messages.length === 0 && !options.follow) {
+        console.log(chalk.dim('No messages'));
+      }
+
+      if (options.follow) {
+        if (!options.json) console.log(chalk.dim('Following the chat. Press Ctrl+C to stop.'));
+        const since = messages.length > 0 ? messages[messages.length - 1].timestamp : Date.now();
+        await followChat(client, proj.id, since, !!options.json);
+      }
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+chatCmd
+  .command('send <message> [project]')
+  .description('Post a message to the project chat')
+  .option('--json', 'Output as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (message: string, project, options) => {
+    const spinner = ora('Sending...').start();
+    try {
+      if (!message.trim()) {
+        throw new Error('Message is empty');
+      }
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      await client.sendChatMessage(proj.id, message);
+
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify({ project: proj.name, content: message }, null, 2));
+      } else {
+        spinner.succeed(`Sent to ${proj.name}`);
+      }
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DOWNLOAD COMMANDS
+// ─────────────────────────────────────────────────────────────────────────────
+
+program
+  .command('download <file> [project]')
+  .description('Download a single file from project')
+  .option('-o, --output <path>', 'Output path (default: same as file name)')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (file, project, options) => {
+    const spinner = ora('Downloading file...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+
+      const content = await client.downloadByPath(proj.id, file);
+      const outputPath = options.output || basename(file);
+
+      writeFileSync(outputPath, content);
+      spinner.succeed(`Downloaded: ${outputPath} (${(content.length / 1024).toFixed(1)} KB)`);
+
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('zip [project]')
+  .description('Download project as zip archive')
+  .option('-o, --output <path>', 'Output path (default: <project-name>.zip)')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (project, options) => {
+    const spinner = ora('Downloading project...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+
+      const zip = await client.downloadProject(proj.id);
+      const outputPath = options.output || `${proj.name.replace(/[^a-zA-Z0-9-_]/g, '_')}.zip`;
+
+      writeFileSync(outputPath, zip);
+      spinner.succeed(`Downloaded: ${outputPath} (${(zip.length / 1024).toFixed(1)} KB)`);
+
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+withCompileOptions(program
+  .command('pdf [project]')
+  .description('Compile and download PDF'))
+  .option('-o, --output <path>', 'Output path (default: <project-name>.pdf)')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (project, options) => {
+    const spinner = ora('Compiling project...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+
+      spinner.text = 'Compiling...';
+      const pdf = await client.downloadPdf(proj.id, await compileOptionsFor(client, proj.id, options));
+      const outputPath = options.output || `${proj.name.replace(/[^a-zA-Z0-9-_]/g, '_')}.pdf`;
+
+      writeFileSync(outputPath, pdf);
+      spinner.succeed(`Downloaded PDF: ${outputPath} (${(pdf.length / 1024).toFixed(1)} KB)`);
+
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+const OUTPUT_TYPES = ['bbl', 'log', 'aux', 'blg', 'pdf', 'out', 'fls', 'fdb_latexmk', 'stderr', 'pdfxref', 'chktex'];
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight
+ */
+async function mapConcurrent<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/** A build plus, for a fresh compile made `withLog`, the output.log text. */
+type LatestBuild = CachedBuild & { log?: string };
+
+/**
+ * Compile a project and remember a successful build as its last build, so
+ * `output --since-last` and `synctex` can reuse it until the project changes
+ */
+async function compileAndCache(
+  client: OverleafClient,
+  projectId: string,
+  compileOptions: CompileOptions,
+  { withLog = false, lastUpdated }: { withLog?: boolean; lastUpdated?: string } = {}
+): Promise<Awaited<ReturnType<OverleafClient['compileWithOutputs']>> & { build: CachedBuild }> {
+  // Read before compiling: an edit made during the compile must make the build stale
+  lastUpdated ??= await projectLastUpdated(client, projectId);
+  const result = await client.compileWithOutputs(projectId, compileOptions, { withLog });
+  const build: CachedBuild = {
+    buildId: result.buildId,
+    clsiServerId: result.clsiServerId,
+    status: result.status,
+    outputFiles: result.outputFiles,
+    projectLastUpdated: lastUpdated ?? '',
+    options: JSON.stringify(compileOptions),
+  };
+  if (lastUpdated && result.status === 'success') setLastBuild(projectId, build);
+  return { ...result, build };
+}
+
+/** The project's lastUpdated, or undefined when it cannot be looked up */
+async function projectLastUpdated(client: OverleafClient, projectId: string): Promise<string | undefined> {
+  return (await client.getProjectById(projectId, { includeArchived: true, includeTrashed: true }))?.lastUpdated;
+}
+
+/**
+ * The last build of a project while it is current (project not modified
+ * since, same compile options); otherwise a fresh compile, cached for next
+ * time. Build outputs expire on the compile server, so `compile` is
+ * returned to build again when a reused build turns out to be gone.
+ */
+async function latestBuild(
+  client: OverleafClient,
+  projectId: string,
+  compileOptions: CompileOptions,
+  reuse: boolean,
+  onCompile?: () => void,
+  withLog = false
+): Promise<{ build: LatestBuild; reused: boolean; compile: () => Promise<LatestBuild> }> {
+  let lastUpdated: string | undefined;
+  let cached: CachedBuild | undefined;
+  if (reuse) {
+    lastUpdated = await projectLastUpdated(client, projectId);
+    const last = getLastBuild(projectId);
+    if (last && lastUpdated && last.projectLastUpdated === lastUpdated && last.options === JSON.stringify(compileOptions)) {
+      cached = last;
+    }
+  }
+
+  const compile = async (): Promise<LatestBuild> => {
+    onCompile?.();
+    const result = await compileAndCache(client, projectId, compileOptions, { withLog, lastUpdated });
+    return { ...result.build, log: result.log };
+  };
+
+  return cached
+    ? { build: cached, reused: true, compile }
+    : { build: await compile(), reused: false, compile };
+}
+
+withCompileOptions(program
+  .command('output [types...]')
+  .description('Download compile output files (bbl, log, aux, pdf, etc.)'))
+  .option('-o, --output <path>', 'Output path (single file only)')
+  .option('-d, --dir <dir>', 'Download into this directory, keeping the output file names')
+  .option('--all', 'Download every output file')
+  .option('--list', 'List available output files')
+  .option('--since-last', 'Reuse the last build if the project has not changed since')
+  .option('--project <name>', 'Project name or ID')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (types: string[], options) => {
+    const spinner = ora('Compiling project...').start();
+    try {
+      const client = await getClient(options.cookie);
+
+      // If the first type looks like a project name (contains spaces or is in project list), treat it as project
+      let wanted = [...types];
+      let projectArg = options.project;
+
+      if (wanted.length > 0 && !projectArg && !OUTPUT_TYPES.includes(wanted[0])) {
+        // Type might actually be a project name
+        const projects = await client.listProjects();
+        const matchedProject = projects.find(p => p.name === wanted[0] || p.id === wanted[0]);
+        if (matchedProject) {
+          projectArg = wanted[0];
+          wanted = wanted.slice(1);
+        }
+      }
+
+      const proj = await resolveProject(client, projectArg);
+      const compileOptions = await compileOptionsFor(client, proj.id, options);
+      // Fetched with the compile anyway when asked for, so don't download it twice
+      const withLog = !!options.all || wanted.includes('log');
+      const latest = await latestBuild(client, proj.id, compileOptions, !!options.sinceLast, () => {
+        spinner.text = 'Compiling project...';
+      }, withLog);
+      let build = latest.build;
+      const { reused, compile } = latest;
+
+      if (build.status !== 'success') {
+        spinner.warn(`Compilation ${build.status}, but output files may still be available`);
+      }
+
+      if (options.list || (wanted.length === 0 && !options.all)) {
+        spinner.stop();
+        console.log(chalk.bold('Available output files:'));
+        for (const file of build.outputFiles) {
+          console.log(`  ${chalk.cyan(file.type.padEnd(12))} ${file.path}`);
+        }
+        console.log();
+        console.log(chalk.dim('Usage: olcli output <type...> | --all [-d <dir>]'));
+        console.log(chalk.dim('Example: olcli output bbl'));
+        return;
+      }
+
+      // Find matching output files
+      const pick = (files: CachedBuild['outputFiles']) => {
+        if (options.all) return files;
+        const missing = wanted.filter((t) => !files.some((f) => f.type === t || f.path.endsWith(`.${t}`)));
+        if (missing.length > 0) {
+          throw new Error(`Output file not found: ${missing.join(', ')} (use --list to see available files)`);
+        }
+        return wanted.map((t) => files.find((f) => f.type === t || f.path.endsWith(`.${t}`))!);
+      };
+      let selected = pick(build.outputFiles);
+      if (options.output && selected.length !== 1) {
+        throw new Error('-o/--output needs exactly one file; use -d/--dir for several');
+      }
+
+      // A single file keeps the old naming (output.bbl → bbl); -d and multiple files keep the names
+      const keepNames = !!options.dir || selected.length > 1;
+      const targetDir = options.dir || '.';
+      const outputPath = (file: { path: string }) =>
+        options.output || (keepNames ? join(targetDir, file.path) : file.path.replace('output.', ''));
+
+      const download = async (file: CachedBuild['outputFiles'][number]) =>
+        file.path === 'output.log' && build.log !== undefined
+          ? Buffer.from(build.log, 'utf-8')
+          : client.downloadOutputFile(file.url);
+
+      spinner.text = `Downloading ${selected.length} file(s)...`;
+      let contents: Buffer[];
+      try {
+        contents = await mapConcurrent(selected, 4, download);
+      } catch (error) {
+        // Build outputs expire on the compile server; fall back to a fresh compile
+        if (!reused) throw error;
+        build = await compile();
+        selected = pick(build.outputFiles);
+        spinner.text = `Downloading ${selected.length} file(s)...`;
+        contents = await mapConcurrent(selected, 4, download);
+      }
+
+      let total = 0;
+      selected.forEach((file, i) => {
+        const path = outputPath(file);
+        mkdirSync(dirname(path), { recursive: true });
+        writeFileSync(path, contents[i]);
+        total += contents[i].length;
+      });
+
+      const source = reused ? ' (from the last build)' : '';
+      if (selected.length === 1) {
+        spinner.succeed(`Downloaded: ${outputPath(selected[0])} (${(total / 1024).toFixed(1)} KB)${source}`);
+      } else {
+        spinner.succeed(`Downloaded ${selected.length} files to ${targetDir}/ (${(total / 1024).toFixed(1)} KB)${source}`);
+        for (const file of selected) console.log(chalk.dim(`  ${outputPath(file)}`));
+      }
+
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+withCompileOptions(program
+  .command('arxiv [project]')
+  .description('Build an arXiv submission tarball (sources, .bbl, no comments or unused figures)'))
+  .option('-o, --output <path>', 'Output path', 'arxiv-submission.tar.gz')
+  .option('--flatten', 'Put all files in the top-level folder and rewrite include paths')
+  .option('--keep-comments', 'Do not strip comments from .tex files')
+  .option('--keep-unused', 'Keep figures that no source refers to')
+  .option('--json', 'Print the report as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (project, options) => {
+    const spinner = ora('Downloading project...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+
+      const AdmZip = (await import('adm-zip')).default;
+      const zip = new AdmZip(await client.downloadProject(proj.id));
+      const files = zip.getEntries()
+        .filter((entry) => !entry.isDirectory)
+        .map((entry) => ({ path: entry.entryName, content: entry.getData() }));
+
+      // Main document: flag, .olcli.json, project settings, then a guess
+      const meta = readProjectMeta('.');
+      const defaults = meta?.projectId === proj.id ? meta.compile : undefined;
+      let settings: Awaited<ReturnType<OverleafClient['getProjectSettings']>> | undefined;
+      try {
+        settings = await client.getProjectSettings(proj.id);
+      } catch {
+        settings = undefined;
+      }
+      const main = options.main ?? defaults?.main ?? settings?.rootDocPath ?? findMainDocument(files);
+      if (!main) {
+        throw new Error('No main document found; pass --main');
+      }
+
+      spinner.text = 'Compiling...';
+      const build = await compileAndCache(client, proj.id, await compileOptionsFor(client, proj.id, options));
+      const bblFile = build.outputFiles.find((f) => f.path === 'output.bbl');
+      const bbl = bblFile ? await client.downloadOutputFile(bblFile.url) : undefined;
+
+      const bundle = buildArxivBundle(files, {
+        main,
+        bbl,
+        stripComments: !options.keepComments,
+        removeUnused: !options.keepUnused,
+        flatten: !!options.flatten,
+        compiler: options.compiler ?? defaults?.compiler ?? settings?.compiler,
+      });
+      if (build.status !== 'success') {
+        bundle.issues.unshift({ level: 'error', message: `compilation ${build.status} on Overleaf; check the log with \`olcli compile\`` });
+      }
+
+      const tarball = createTarGz(bundle.files);
+      writeFileSync(options.output, tarball);
+      spinner.stop();
+
+      const errors = bundle.issues.filter((i) => i.level === 'error').length;
+      if (errors > 0) process.exitCode = 1;
+
+      if (options.json) {
+        console.log(JSON.stringify({
+          project: proj.name,
+          output: options.output,
+          main,
+          files: bundle.files.map((f) => f.path),
+          added: bundle.added,
+          removed: bundle.removed,
+          issues: bundle.issues,
+        }, null, 2));
+        setLastProject(proj.id);
+        return;
+      }
+
+      console.log(chalk.green(`✔ Wrote ${options.output}`) +
+        chalk.dim(` (${bundle.files.length} files, ${(tarball.length / 1024).toFixed(1)} KB)`));
+      console.log(`  ${chalk.dim('Main:')} ${main}`);
+      for (const path of bundle.added) {
+        console.log(`  ${chalk.green('+')} ${path} ${chalk.dim('(compiled bibliography)')}`);
+      }
+      for (const { path, reason } of bundle.removed) {
+        console.log(`  ${chalk.red('-')} ${path} ${chalk.dim(`(${reason})`)}`);
+      }
+      if (bundle.issues.length > 0) {
+        console.log();
+        for (const issue of bundle.issues) {
+          const level = issue.level === 'error' ? chalk.red('error') : chalk.yellow('warning');
+          console.log(`  ${issue.file ? `${issue.file}: ` : ''}${level}: ${issue.message}`);
+        }
+      }
+      if (errors > 0) {
+        console.log(chalk.red(`\n${errors} problem(s) to fix before submitting to arXiv`));
+      }
+
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// UPLOAD COMMANDS
+// ─────────────────────────────────────────────────────────────────────────────
+
+program
+  .command('upload <file> [project]')
+  .description('Upload a file to a project')
+  .option('--folder <id>', 'Target folder ID (default: root)')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (file, project, options) => {
+    const spinner = ora('Uploading file...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+
+      if (!existsSync(file)) {
+        spinner.fail(`File not found: ${file}`);
+        process.exit(1);
+      }
+
+      const content = readFileSync(file);
+      const fileName = basename(file);
+
+      // Pass folder ID or null for root folder (client will compute it)
+      const folderId = options.folder || null;
+
+      const result = await client.uploadFile(proj.id, folderId, fileName, content);
+
+      if (result.success) {
+        spinner.succeed(`Uploaded: ${fileName} → "${proj.name}"`);
+      } else {
+        spinner.fail(`Upload failed for: ${fileName}`);
+        process.exit(1);
+      }
+
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// DELETE / RENAME / MOVE COMMANDS
+// ─────────────────────────────────────────────────────────────────────────────
+// Use deleteByPath / renameByPath / moveByPath which resolve a path to an
+// entity id through the project tree, then call the delete/rename/move
+// endpoints. Moving keeps the entity (and so its history) instead of
+// deleting and re-uploading it.
+
+program
+  .command('delete <file> [project]')
+  .alias('rm')
+  .description('Delete a file or folder from a project')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (file, project, options) => {
+    const spinner = ora('Deleting file...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      await client.deleteByPath(proj.id, file);
+      spinner.succeed(`Deleted: ${file}`);
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('rename <oldname> <newname> [project]')
+  .description('Rename a file or folder in a project')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (oldname, newname, project, options) => {
+    const spinner = ora('Renaming file...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      await client.renameByPath(proj.id, oldname, newname);
+      spinner.succeed(`Renamed: ${oldname} → ${newname}`);
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('mv <source> <destination> [project]')
+  .description('Move or rename a file or folder, creating missing folders')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (source, destination, project, options) => {
+    const spinner = ora('Moving...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      const newPath = await client.moveByPath(proj.id, source, destination);
+      spinner.succeed(`Moved: ${source} → ${newPath}`);
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('mkdir <path> [project]')
+  .description('Create a folder in a project')
+  .option('-p, --parents', 'Create missing parent folders; no error if the folder exists')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (path, project, options) => {
+    const spinner = ora('Creating folder...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      await client.createFolderByPath(proj.id, path, { parents: options.parents });
+      spinner.succeed(`Created: ${path.replace(/^\.?\/+|\/+$/g, '')}/`);
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// REMOTE FILE COMMANDS
+// ─────────────────────────────────────────────────────────────────────────────
+// Inspect the project tree without pulling it. Paths inside the linked
+// directory are mapped to project paths like the other path arguments.
+
+/**
+ * Fetch the project tree and find `path` in it ('', '.' and '/' are the
+ * root folder)
+ */
+async function lookupPath(client: OverleafClient, projectId: string, path: string | undefined): Promise<{
+  entries: TreeEntry[];
+  entry: TreeEntry;
+}> {
+  const target = projectPathFor(path ?? '', findLinkedRoot(projectId)).replace(/^\/+|\/+$/g, '').replace(/^\.$/, '');
+  const entries = await client.getTreeEntries(projectId);
+  const entry = entries.find((e) => e.path === target);
+  if (!entry) {
+    throw new Error(`No such file or folder: ${path ?? '/'}`);
+  }
+  return { entries, entry };
+}
+
+/** Children of a folder: folders first, then docs and files, by name */
+function childrenOf(entries: TreeEntry[], folder: TreeEntry): TreeEntry[] {
+  return entries
+    .filter((e) => e.parentId === folder.id)
+    .sort((a, b) => Number(b.type === 'folder') - Number(a.type === 'folder') || a.name.localeCompare(b.name));
+}
+
+function entryName(entry: TreeEntry): string {
+  return entry.type === 'folder' ? `${chalk.blue(entry.name)}/` : entry.name;
+}
+
+function printFolder(entries: TreeEntry[], folder: TreeEntry, indent: string, long: boolean): void {
+  const icons = { folder: '📁', doc: '📄', file: '📎' };
+  for (const child of childrenOf(entries, folder)) {
+    const id = long ? chalk.dim(`  ${child.id}`) : '';
+    console.log(`${indent}${icons[child.type]} ${entryName(child)}${id}`);
+    if (child.type === 'folder') printFolder(entries, child, indent + '  ', long);
+  }
+}
+
+program
+  .command('ls [path] [project]')
+  .description('List a remote folder')
+  .option('-l, --long', 'Show type and ID')
+  .option('--json', 'Output as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (path, project, options) => {
+    const spinner = ora('Fetching file tree...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      const { entries, entry } = await lookupPath(client, proj.id, path);
+      const listed = entry.type === 'folder' ? childrenOf(entries, entry) : [entry];
+      spinner.stop();
+
+      if (options.json) {
+        console.log(JSON.stringify(listed.map(({ id, type, name, path }) => ({ id, type, name, path })), null, 2));
+      } else {
+        for (const e of listed) {
+          const name = entry.type === 'folder' ? entryName(e) : e.path;
+          console.log(options.long ? `${e.type.padEnd(6)} ${chalk.dim(e.id)}  ${name}` : name);
+        }
+      }
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('tree [path] [project]')
+  .description('Show the remote folder tree')
+  .option('-l, --long', 'Show IDs')
+  .option('--json', 'Output as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (path, project, options) => {
+    const spinner = ora('Fetching file tree...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      const { entries, entry } = await lookupPath(client, proj.id, path);
+      spinner.stop();
+
+      if (entry.type !== 'folder') {
+        throw new Error(`Not a folder: ${entry.path}`);
+      }
+      const inside = entries.filter((e) => entry.path === '' ? e !== entry : e.path.startsWith(`${entry.path}/`));
+
+      if (options.json) {
+        const toJson = (folder: TreeEntry): any[] => childrenOf(entries, folder).map((child) => ({
+          id: child.id,
+          type: child.type,
+          name: child.name,
+          path: child.path,
+          ...(child.type === 'folder' ? { children: toJson(child) } : {}),
+        }));
+        console.log(JSON.stringify(toJson(entry), null, 2));
+      } else {
+        console.log(chalk.bold(entry.path ? `${entry.path}/` : proj.name));
+        printFolder(entries, entry, '  ', !!options.long);
+        const folders = inside.filter((e) => e.type === 'folder').length;
+        console.log(chalk.dim(`\n${folders} folder(s), ${inside.length - folders} file(s)`));
+      }
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('cat <path> [project]')
+  .description('Print a remote file to stdout')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (path, project, options) => {
+    const spinner = ora('Downloading file...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      const { entry } = await lookupPath(client, proj.id, path);
+      if (entry.type === 'folder') {
+        throw new Error(`Is a folder: ${entry.path || '/'}`);
+      }
+      const content = await client.downloadFile(proj.id, entry.id, entry.type);
+      spinner.stop();
+      process.stdout.write(content);
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('stat <path> [project]')
+  .description('Show the ID, type, size and last change of a remote file or folder')
+  .option('--json', 'Output as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (path, project, options) => {
+    const spinner = ora('Fetching file info...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      const { entries, entry } = await lookupPath(client, proj.id, path);
+
+      // Docs and files carry no size in the tree, so download them; the last
+      // change comes from the project history (pathnames are project paths)
+      const touches = (pathname: string | undefined) => pathname !== undefined &&
+        (entry.type === 'folder' ? entry.path === '' || pathname.startsWith(`${entry.path}/`) : pathname === entry.path);
+      const [content, update] = await Promise.all([
+        entry.type === 'folder' ? undefined : client.downloadFile(proj.id, entry.id, entry.type),
+        client.findHistoryUpdate(proj.id, (u) => u.pathnames.some(touches) ||
+          u.project_ops.some((op) => touches(op.add?.pathname) || touches(op.rename?.newPathname))),
+      ]);
+      spinner.stop();
+
+      const children = entry.type === 'folder' ? childrenOf(entries, entry) : [];
+      const info = {
+        path: entry.path,
+        id: entry.id,
+        type: entry.type,
+        ...(content ? { size: content.length } : { entries: children.length }),
+        ...(entry.created ? { created: entry.created } : {}),
+        ...(update ? {
+          modified: new Date(update.meta.end_ts).toISOString(),
+          modifiedBy: formatHistoryUsers(update.meta.users),
+          version: update.toV,
+        } : {}),
+      };
+
+      if (options.json) {
+        console.log(JSON.stringify(info, null, 2));
+      } else {
+        console.log(`  Path:     ${entry.path || '/'}`);
+        console.log(`  ID:       ${chalk.cyan(entry.id)}`);
+        console.log(`  Type:     ${entry.type}`);
+        if (content) console.log(`  Size:     ${content.length} bytes (${(content.length / 1024).toFixed(1)} KB)`);
+        else console.log(`  Entries:  ${children.length}`);
+        if (entry.created) console.log(`  Created:  ${new Date(entry.created).toLocaleString()}`);
+        console.log(update
+          ? `  Modified: ${new Date(update.meta.end_ts).toLocaleString()} by ${formatHistoryUsers(update.meta.users)} (version ${update.toV})`
+          : `  Modified: ${chalk.dim('not in recent history')}`);
+      }
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// COMPILE COMMAND
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Find the directory linked to a project: the current directory or the
+ * closest parent whose .olcli.json names it
+ */
+function findLinkedRoot(projectId: string): string | undefined {
+  let dir = resolve('.');
+  for (;;) {
+    if (readProjectMeta(dir)?.projectId === projectId) return dir;
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Map a path given on the command line to a project path: files inside the
+ * linked directory are taken relative to it, anything else as written
+ */
+function projectPathFor(path: string, root: string | undefined): string {
+  return root && existsSync(path)
+    ? relative(root, resolve(path)).split('\\').join('/')
+    : path.replace(/^(\.\/)+/, '');
+}
+
+/**
+ * Map a project path from the compile log to the local working tree,
+ * relative to the current directory (unchanged when there is no local copy)
+ */
+function localLogPath(file: string | undefined, root: string | undefined): string | undefined {
+  if (!file || !root || file.startsWith('/')) return file;
+  const local = join(root, file);
+  return existsSync(local) ? relative('.', local) || file : file;
+}
+
+const LOG_COLORS: Record<LogLevel, (text: string) => string> = {
+  error: chalk.red,
+  warning: chalk.yellow,
+  typesetting: chalk.dim,
+};
+
+withCompileOptions(program
+  .command('compile [project]')
+  .description('Compile a project and report LaTeX errors and warnings'))
+  .option('--boxes', 'Also list overfull/underfull box warnings')
+  .option('--fail-on <kinds>', 'Also fail on warnings, undefined-refs and/or overfull (comma-separated)')
+  .option('--junit <file>', 'Write a JUnit XML report')
+  .option('--sarif <file>', 'Write a SARIF report')
+  .option('--github', 'Print GitHub Actions annotations (default in GitHub Actions, except with --json)')
+  .option('--json', 'Output the compile status and log entries as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (project, options) => {
+    const spinner = ora('Compiling...').start();
+    try {
+      const failOn = options.failOn ? parseFailOn(options.failOn) : [];
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+
+      const result = await compileAndCache(client, proj.id, await compileOptionsFor(client, proj.id, options), { withLog: true });
+      const root = findLinkedRoot(proj.id);
+      const entries = (result.log ? parseLatexLog(result.log) : [])
+        .map((entry) => ({ ...entry, localFile: localLogPath(entry.file, root) }));
+      spinner.stop();
+
+      const report: CompileReport = { project: proj.name, status: result.status, entries };
+      const failed = compileFailed(report, failOn);
+      if (options.junit) writeFileSync(options.junit, toJUnit(report, failOn));
+      if (options.sarif) writeFileSync(options.sarif, toSarif(report, failOn, VERSION));
+      if (options.github || (process.env.GITHUB_ACTIONS === 'true' && !options.json)) {
+        for (const line of toGitHubAnnotations(report, failOn)) console.log(line);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify({
+          project: proj,
+          status: result.status,
+          failed,
+          pdfUrl: result.pdfUrl,
+          entries,
+        }, null, 2));
+        if (failed) process.exitCode = 1;
+        setLastProject(proj.id);
+        return;
+      }
+
+      for (const entry of entries) {
+        if (entry.level === 'typesetting' && !options.boxes && !isFailure(entry, failOn)) continue;
+        console.log(LOG_COLORS[entry.level](formatLogEntry(entry, entry.localFile)));
+      }
+
+      const count = (level: LogLevel) => entries.filter((e) => e.level === level).length;
+      const summary = `${count('error')} error(s), ${count('warning')} warning(s), ${count('typesetting')} bad box(es)`;
+      if (result.status !== 'success') {
+        spinner.fail(`Compilation ${result.status}: ${summary}`);
+        process.exit(1);
+      }
+      if (failed) {
+        spinner.fail(`Compiled "${proj.name}" with failures — ${summary}`);
+        process.exit(1);
+      }
+      spinner.succeed(`Compiled "${proj.name}" — ${summary}`);
+      if (result.pdfUrl) {
+        console.log(chalk.dim(`PDF URL: ${result.pdfUrl}`));
+      }
+
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Compilation failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Run a SyncTeX lookup against the last build (compiling when it is out of
+ * date or --recompile is given), retrying once on a fresh build when the
+ * compile server no longer has the cached one
+ */
+async function syncTexLookup<T>(
+  client: OverleafClient,
+  projectId: string,
+  options: any,
+  spinner: ReturnType<typeof ora>,
+  lookup: (build: CachedBuild) => Promise<T[]>
+): Promise<T[]> {
+  const compileOptions = await compileOptionsFor(client, projectId, options);
+  const latest = await latestBuild(client, projectId, compileOptions, !options.recompile, () => {
+    spinner.text = 'Compiling project...';
+  });
+  const hasPdf = (build: CachedBuild) => build.outputFiles.some((f) => f.type === 'pdf');
+  if (!hasPdf(latest.build)) {
+    throw new Error(`Compilation ${latest.build.status}, no PDF to search`);
+  }
+
+  spinner.text = 'Searching...';
+  try {
+    return await lookup(latest.build);
+  } catch (error) {
+    if (!latest.reused) throw error;
+    const build = await latest.compile();
+    if (!hasPdf(build)) throw new Error(`Compilation ${build.status}, no PDF to search`);
+    spinner.text = 'Searching...';
+    return lookup(build);
+  }
+}
+
+const synctexCmd = program
+  .command('synctex')
+  .description('SyncTeX forward/inverse search against the PDF compiled on Overleaf');
+
+withCompileOptions(synctexCmd
+  .command('forward <position> [project]')
+  .description('Find where <file>:<line>[:<column>] appears in the PDF'))
+  .option('--recompile', 'Compile again even if the last build is current')
+  .option('--json', 'Output as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (position: string, project, options) => {
+    const spinner = ora('Looking up build...').start();
+    try {
+      const match = position.match(/^(.+):(\d+)(?::(\d+))?$/);
+      if (!match) {
+        throw new Error(`Invalid position: ${position} (expected <file>:<line>[:<column>])`);
+      }
+      const line = Number(match[2]);
+      const column = match[3] !== undefined ? Number(match[3]) : 0;
+
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+
+      const file = projectPathFor(match[1], findLinkedRoot(proj.id));
+
+      const positions = await syncTexLookup(client, proj.id, options, spinner, (build) =>
+        client.syncFromCode(proj.id, { file, line, column }, build));
+      spinner.stop();
+
+      if (options.json) {
+        console.log(JSON.stringify(positions, null, 2));
+      } else if (positions.length === 0) {
+        console.log(chalk.yellow(`No PDF position for ${file}:${line}`));
+        process.exitCode = 1;
+      } else {
+        for (const p of positions) {
+          console.log(`page ${p.page}  x ${p.h.toFixed(2)}  y ${p.v.toFixed(2)}  ` +
+            chalk.dim(`(${p.width.toFixed(2)} × ${p.height.toFixed(2)} pt)`));
+        }
+      }
+
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+withCompileOptions(synctexCmd
+  .command('inverse <page> <x> <y> [project]')
+  .description('Find the source line at a PDF position (points from the top-left corner)'))
+  .option('--recompile', 'Compile again even if the last build is current')
+  .option('--json', 'Output as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (pageArg: string, xArg: string, yArg: string, project, options) => {
+    const spinner = ora('Looking up build...').start();
+    try {
+      const page = Number(pageArg);
+      const h = Number(xArg);
+      const v = Number(yArg);
+      if (!Number.isInteger(page) || page < 1) {
+        throw new Error(`Invalid page: ${pageArg}`);
+      }
+      if (!Number.isFinite(h) || !Number.isFinite(v)) {
+        throw new Error(`Invalid coordinates: ${xArg} ${yArg}`);
+      }
+
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+
+      const positions = await syncTexLookup(client, proj.id, options, spinner, (build) =>
+        client.syncFromPdf(proj.id, { page, h, v }, build));
+      spinner.stop();
+
+      // Report paths in the local working tree when there is one
+      const root = findLinkedRoot(proj.id);
+      const results = positions.map((p) => ({ ...p, localFile: localLogPath(p.file, root) ?? p.file }));
+
+      if (options.json) {
+        console.log(JSON.stringify(results, null, 2));
+      } else if (results.length === 0) {
+        console.log(chalk.yellow(`No source position at page ${page} (${h}, ${v})`));
+        process.exitCode = 1;
+      } else {
+        for (const r of results) {
+          console.log(r.column > 0 ? `${r.localFile}:${r.line}:${r.column}` : `${r.localFile}:${r.line}`);
+        }
+      }
+
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('wordcount [project]')
+  .description('Count words with texcount on Overleaf (text, headers, captions, math; totals only, no per-section breakdown)')
+  .option('--file <path>', 'Count this document and its includes instead of the main document')
+  .option('--by-file', 'Also count every .tex document of the project separately (Overleaf has no per-section counts)')
+  .option('--max <words>', 'Exit with status 1 when the words in text exceed this limit')
+  .option('--json', 'Output as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (project, options) => {
+    const spinner = ora('Counting words...').start();
+    try {
+      const max = options.max !== undefined ? Number(options.max) : undefined;
+      if (max !== undefined && (!Number.isInteger(max) || max < 0)) {
+        throw new Error(`Invalid --max: ${options.max}`);
+      }
+
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      const file = options.file ? projectPathFor(options.file, findLinkedRoot(proj.id)) : undefined;
+
+      const total = await client.getWordCount(proj.id, file);
+
+      let files: Array<{ path: string } & WordCount> | undefined;
+      if (options.byFile) {
+        const docs = (await client.getEntities(proj.id))
+          .filter((e) => e.type === 'doc' && /\.(tex|ltx)$/i.test(e.path))
+          .map((e) => e.path.replace(/^\/+/, ''))
+          .sort();
+        spinner.text = `Counting words in ${docs.length} file(s)...`;
+        files = await mapConcurrent(docs, 4, async (path) => ({ path, ...await client.getWordCount(proj.id, path) }));
+      }
+      spinner.stop();
+
+      const overLimit = max !== undefined && total.textWords > max;
+      if (overLimit) process.exitCode = 1;
+
+      if (options.json) {
+        console.log(JSON.stringify({ project: proj.name, file: file ?? null, ...total, ...(files ? { files } : {}) }, null, 2));
+        setLastProject(proj.id);
+        return;
+      }
+
+      const rows: Array<[string, number, string?]> = [
+        ['Words in text', total.textWords],
+        ['Words in headers', total.headWords],
+        ['Words outside text', total.outside, 'captions, footnotes'],
+        ['Headers', total.headers],
+        ['Floats/tables/figures', total.elements],
+        ['Math inline', total.mathInline],
+        ['Math displayed', total.mathDisplay],
+      ];
+      console.log(chalk.bold(`Word count: ${proj.name}`) + (file ? chalk.dim(` (${file})`) : ''));
+      for (const [label, value, note] of rows) {
+        console.log(`  ${label.padEnd(22)} ${String(value).padStart(8)}${note ? chalk.dim(`  (${note})`) : ''}`);
+      }
+
+      if (files) {
+        const width = Math.max(4, ...files.map((f) => f.path.length));
+        console.log();
+        console.log(chalk.dim(`  ${'File'.padEnd(width)}  ${'Text'.padStart(8)}  ${'Headers'.padStart(8)}  ${'Outside'.padStart(8)}`));
+        for (const f of files) {
+          console.log(`  ${f.path.padEnd(width)}  ${String(f.textWords).padStart(8)}  ${String(f.headWords).padStart(8)}  ${String(f.outside).padStart(8)}`);
+        }
+      }
+
+      if (total.errors > 0) {
+        console.log(chalk.yellow(`\ntexcount reported ${total.errors} error(s)`));
+        for (const message of total.messages) console.log(chalk.dim(`  ${message}`));
+      }
+      if (overLimit) {
+        console.log(chalk.red(`\n${total.textWords} words in text exceeds the limit of ${max}`));
+      }
+
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SYNC COMMANDS
+// ─────────────────────────────────────────────────────────────────────────────
+
+program
+  .command('pull [project] [dir]')
+  .description('Download project files to local directory')
+  .option('--force', 'Overwrite local files even if modified locally')
+  .option('--with-track-changes', 'Write pending tracked changes as \\added{}/\\deleted{} markup (changes package)')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (project, dir, options) => {
+    let targetDir = dir || '.';
+    let projectId: string | undefined;
+    let projectName: string | undefined;
+
+    // Check for existing .olcli.json if no project specified
+    const metaPath = join(targetDir, '.olcli.json');
+    if (!project && existsSync(metaPath)) {
+      const meta = JSON.parse(readFileSync(metaPath, 'utf-8'));
+      projectId = meta.projectId;
+      projectName = meta.projectName;
+    } else if (!project) {
+      console.error(chalk.red('No project specified.'));
+      console.error('Usage: olcli pull <project> [dir]');
+      console.error('Or run from a directory with .olcli.json');
+      process.exit(1);
+    }
+
+    const spinner = ora('Fetching project...').start();
+    try {
+      const client = await getClient(options.cookie);
+
+      // Resolve project if needed
+      if (!projectId) {
+        let proj = await client.getProjectById(project!);
+        if (!proj) {
+          proj = await client.getProject(project!);
+        }
+        if (!proj) {
+          spinner.fail(`Project not found: ${project}`);
+          process.exit(1);
+        }
+        projectId = proj.id;
+        projectName = proj.name;
+        // Default directory is project name (sanitized) if not specified
+        if (!dir) {
+          targetDir = proj.name.replace(/[^a-zA-Z0-9-_]/g, '_');
+        }
+      }
+
+      spinner.text = 'Downloading project...';
+      const zipBuffer = await client.downloadProject(projectId);
+
+      // Extract zip
+      spinner.text = 'Extracting files...';
+      const AdmZip = (await import('adm-zip')).default;
+      const zip = new AdmZip(zipBuffer);
+
+      // Create target directory
+      if (!existsSync(targetDir)) {
+        mkdirSync(targetDir, { recursive: true });
+      }
+
+      // Previous state: hash manifest if available, else last pull time
+      const { statSync } = await import('node:fs');
+      const previousMeta = readProjectMeta(targetDir);
+      const lastPull = previousMeta?.lastPull ? new Date(previousMeta.lastPull) : undefined;
+      const useHashes = hasHashManifest(previousMeta);
+
+      // --with-track-changes: docs with pending changes get markup locally;
+      // the base snapshot and remote state stay those of the remote text
+      const trackedChanges = new Map<string, TrackedChange[]>();
+      if (options.withTrackChanges) {
+        spinner.text = 'Fetching tracked changes...';
+        const [ranges, info] = await Promise.all([client.getDocRanges(projectId), client.getProjectInfo(projectId)]);
+        const paths = docPaths(info.rootFolder?.[0]);
+        for (const r of ranges) {
+          const path = paths.get(r.docId);
+          if (path && r.changes.length > 0) trackedChanges.set(path, r.changes);
+        }
+      }
+
+      // Extract files with safety check
+      const entries = zip.getEntries();
+      let fileCount = 0;
+      let skippedCount = 0;
+      const skippedFiles: string[] = [];
+      const remoteStates: FileStates = {};
+      const localStates: FileStates = {};
+      const previousMarkup = new Set(previousMeta?.trackChangesMarkup ?? []);
+      const markupPaths: string[] = [];
+      let markedUp = 0;
+      const unmarked: Array<{ path: string; change: TrackedChange }> = [];
+
+      for (const entry of entries) {
+        if (!entry.isDirectory) {
+          const filePath = join(targetDir, entry.entryName);
+          const fileDir = dirname(filePath);
+          const remote = entry.getData();
+          let data = remote;
+          const changes = trackedChanges.get(entry.entryName);
+          if (changes) {
+            const rendered = trackChangesMarkup(remote.toString('utf-8'), changes);
+            data = Buffer.from(rendered.text, 'utf-8');
+            markedUp += changes.length - rendered.skipped.length;
+            unmarked.push(...rendered.skipped.map((change) => ({ path: entry.entryName, change })));
+          }
+          const marked = !data.equals(remote);
+
+          if (existsSync(filePath)) {
+            const localContent = readFileSync(filePath);
+            if (localContent.equals(data)) {
+              // Already up to date - leave the file (and its mtime) alone
+              remoteStates[entry.entryName] = fileState(remote);
+              localStates[entry.entryName] = fileState(data);
+              writeBase(targetDir, entry.entryName, remote);
+              if (marked) markupPaths.push(entry.entryName);
+              fileCount++;
+              continue;
+            }
+
+            // Check if local file was modified since the last pull
+            if (!options.force) {
+              const locallyModified = useHashes
+                ? isChanged(previousMeta!.localFiles![entry.entryName], localContent)
+                : lastPull !== undefined && statSync(filePath).mtime > lastPull;
+              if (locallyModified) {
+                // Local file was modified - skip unless --force, keep its previous state
+                skippedCount++;
+                skippedFiles.push(entry.entryName);
+                const prevRemote = previousMeta?.remoteFiles?.[entry.entryName];
+                const prevLocal = previousMeta?.localFiles?.[entry.entryName];
+                if (prevRemote) remoteStates[entry.entryName] = prevRemote;
+                if (prevLocal) localStates[entry.entryName] = prevLocal;
+                if (previousMarkup.has(entry.entryName)) markupPaths.push(entry.entryName);
+                continue;
+              }
+            }
+          }
+
+          if (!existsSync(fileDir)) {
+            mkdirSync(fileDir, { recursive: true });
+          }
+          writeFileSync(filePath, data);
+          writeBase(targetDir, entry.entryName, remote);
+          remoteStates[entry.entryName] = fileState(remote);
+          localStates[entry.entryName] = fileState(data);
+          if (marked) markupPaths.push(entry.entryName);
+          fileCount++;
+        }
+      }
+
+      // Save project metadata (with manifest of remote files for sync deletion tracking)
+      const remoteManifest: string[] = [];
+      for (const e of entries) {
+        if (!e.isDirectory) remoteManifest.push(e.entryName);
+      }
+      // Keep user settings (e.g. compile defaults) when re-pulling the same project
+      writeProjectMeta(targetDir, {
+        ...(previousMeta?.projectId === projectId ? previousMeta : {}),
+        projectId: projectId!,
+        projectName: projectName!,
+        lastPull: new Date().toISOString(),
+        remoteManifest,
+        remoteFiles: remoteStates,
+        localFiles: localStates,
+        trackChangesMarkup: markupPaths.length > 0 ? markupPaths : undefined
+      });
+
+      if (skippedCount > 0) {
+        spinner.warn(`Downloaded ${fileCount} files, skipped ${skippedCount} locally modified files`);
+        console.log(chalk.yellow('  Skipped (modified locally):'));
+        for (const f of skippedFiles.slice(0, 5)) {
+          console.log(chalk.dim(`    ${f}`));
+        }
+        if (skippedFiles.length > 5) {
+          console.log(chalk.dim(`    ... and ${skippedFiles.length - 5} more`));
+        }
+        console.log(chalk.dim('  Use --force to overwrite'));
+      } else {
+        spinner.succeed(`Downloaded ${fileCount} files to ${targetDir}/`);
+      }
+      if (markupPaths.length > 0) {
+        console.log(chalk.dim(`  Marked up ${markedUp} tracked change(s) in ${markupPaths.length} file(s); compile with \\usepackage{changes}`));
+        console.log(chalk.dim('  Accept or reject them with `olcli changes` rather than editing the markup'));
+      }
+      if (unmarked.length > 0) {
+        // Wrapping these would leave an uncompilable file
+        console.log(chalk.yellow(`  ⚠ ${unmarked.length} tracked change(s) not marked up (unbalanced braces, a % comment or half an environment):`));
+        for (const { path, change } of unmarked.slice(0, 5)) {
+          const kind = change.type === 'insert' ? 'insertion kept as plain text' : 'deletion left out';
+          console.log(chalk.yellow(`      ${path}: ${kind} [${shortId(change.id)}]`));
+        }
+        if (unmarked.length > 5) {
+          console.log(chalk.yellow(`      ... and ${unmarked.length - 5} more`));
+        }
+      }
+
+      setLastProject(projectId);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('push [dir]')
+  .description('Upload local changes to Overleaf project')
+  .option('--project <name>', 'Project name or ID (overrides .olcli.json)')
+  .option('--all', 'Upload all files (not just changed)')
+  .option('--dry-run', 'Show what would be uploaded without uploading')
+  .option('--probe-folder', 'Probe for correct folder ID (use if uploads fail with folder_not_found)')
+  .option('--no-default-ignore', 'Disable built-in LaTeX artifact ignore list (only .olignore applies)')
+  .option('--no-ignore', 'Disable all ignore filtering (escape hatch — uploads everything)')
+  .option('--show-ignored', 'Print files skipped by ignore rules')
+  .option('--no-realtime', 'Re-upload changed docs instead of editing them over the collaboration socket')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (dir, options) => {
+    const targetDir = dir || '.';
+
+    // Check for project metadata
+    let projectId: string | undefined;
+    let projectName: string | undefined;
+    let lastPull: Date | undefined;
+    let rootFolderId: string | undefined;
+
+    const meta = readProjectMeta(targetDir);
+    if (meta) {
+      projectId = meta.projectId;
+      projectName = meta.projectName;
+      lastPull = meta.lastPull ? new Date(meta.lastPull) : undefined;
+      rootFolderId = meta.rootFolderId;
+    }
+    // Content hashes at last sync drive change detection; older metadata
+    // without them falls back to comparing mtimes against the last pull.
+    const useHashes = hasHashManifest(meta);
+
+    if (options.project) {
+      // Override with command line option
+      projectId = undefined;
+      projectName = options.project;
+    }
+
+    if (!projectId && !projectName) {
+      console.error(chalk.red('No project specified.'));
+      console.error('Either run from a directory with .olcli.json or use --project');
+      process.exit(1);
+    }
+
+    const spinner = ora('Connecting...').start();
+    try {
+      const client = await getClient(options.cookie);
+
+      // Resolve project if needed
+      if (!projectId) {
+        let proj = await client.getProjectById(projectName!);
+        if (!proj) {
+          proj = await client.getProject(projectName!);
+        }
+        if (!proj) {
+          spinner.fail(`Project not found: ${projectName}`);
+          process.exit(1);
+        }
+        projectId = proj.id;
+        projectName = proj.name;
+      }
+
+      spinner.text = 'Scanning files...';
+
+      // Build ignore context (defaults + .olignore + .olignore.local)
+      const ignoreCtx = loadIgnore(targetDir, {
+        noDefaults: options.defaultIgnore === false,
+        disableAll: options.ignore === false,
+      });
+
+      // Get list of files to upload
+      const { readdirSync, statSync } = await import('node:fs');
+
+      const filesToUpload: { path: string; relativePath: string; content: Buffer }[] = [];
+      const filesIgnored: string[] = [];
+
+      function scanDir(currentDir: string, relativeBase: string = '') {
+        const entries = readdirSync(currentDir, { withFileTypes: true });
+        // Pre-compute sibling .tex set for the PDF special rule.
+        const texSiblings = buildTexSiblingSet(
+          entries.filter((e) => !e.isDirectory()).map((e) => e.name),
+        );
+        for (const entry of entries) {
+          // Skip hidden files and .olcli.json (always — predates ignore subsystem)
+          if (entry.name.startsWith('.')) continue;
+
+          const fullPath = join(currentDir, entry.name);
+          const relativePath = relativeBase ? `${relativeBase}/${entry.name}` : entry.name;
+
+          if (entry.isDirectory()) {
+            // Test directory ignore (gitignore semantics: trailing slash matches dir)
+            if (shouldIgnore(`${relativePath}/`, ignoreCtx)) {
+              filesIgnored.push(`${relativePath}/`);
+              continue;
+            }
+            scanDir(fullPath, relativePath);
+          } else {
+            if (shouldIgnore(relativePath, ignoreCtx, texSiblings)) {
+              filesIgnored.push(relativePath);
+              continue;
+            }
+            // Check if file changed since last sync (unless --all)
+            if (options.all || (!useHashes && !lastPull)) {
+              filesToUpload.push({ path: fullPath, relativePath, content: readFileSync(fullPath) });
+            } else if (useHashes) {
+              const content = readFileSync(fullPath);
+              if (isChanged(meta!.localFiles![relativePath], content)) {
+                filesToUpload.push({ path: fullPath, relativePath, content });
+              }
+            } else {
+              const stats = statSync(fullPath);
+              if (stats.mtime > lastPull!) {
+                filesToUpload.push({ path: fullPath, relativePath, content: readFileSync(fullPath) });
+              }
+            }
+          }
+        }
+      }
+
+      scanDir(targetDir);
+
+      // Never upload files with unresolved merge conflict markers
+      const filesConflicted = filesToUpload.filter((f) => hasConflictMarkers(f.content));
+      if (filesConflicted.length > 0) {
+        spinner.stop();
+        for (const f of filesConflicted) {
+          console.log(chalk.yellow(`  ⚠ Skipping ${f.relativePath}: unresolved conflict markers`));
+          filesToUpload.splice(filesToUpload.indexOf(f), 1);
+        }
+        spinner.start('Scanning files...');
+      }
+
+      // Nor files still holding markup from pull --with-track-changes
+      const markupPaths = new Set(meta?.trackChangesMarkup ?? []);
+      const filesMarkup = filesToUpload.filter((f) => markupPaths.has(f.relativePath));
+      if (filesMarkup.length > 0) {
+        spinner.stop();
+        for (const f of filesMarkup) {
+          console.log(chalk.yellow(`  ⚠ Skipping ${f.relativePath}: tracked-change markup (run olcli pull to replace it)`));
+          filesToUpload.splice(filesToUpload.indexOf(f), 1);
+        }
+        spinner.start('Scanning files...');
+      }
+
+      if (options.showIgnored && filesIgnored.length > 0) {
+        spinner.stop();
+        console.log(chalk.bold(chalk.dim(`Ignored ${filesIgnored.length} file(s)/dir(s):`)));
+        for (const p of filesIgnored) {
+          console.log(chalk.dim(`  ${p}`));
+        }
+        spinner.start('Scanning files...');
+      }
+
+      if (filesToUpload.length === 0) {
+        spinner.info('No files to upload');
+        return;
+      }
+
+      if (options.dryRun) {
+        spinner.stop();
+        console.log(chalk.bold(`Would upload ${filesToUpload.length} file(s) to "${projectName}":`));
+        for (const f of filesToUpload) {
+          console.log(`  ${chalk.cyan(f.relativePath)}`);
+        }
+        return;
+      }
+
+      // If --probe-folder is set, or if we don't have a cached rootFolderId, try probing
+      if (options.probeFolder && !rootFolderId) {
+        spinner.text = 'Probing for correct folder ID...';
+        rootFolderId = await client.probeRootFolderId(projectId!) ?? undefined;
+        if (rootFolderId) {
+          // Save the discovered folder ID
+          if (meta) {
+            meta.rootFolderId = rootFolderId;
+            writeProjectMeta(targetDir, meta);
+          }
+          spinner.succeed(`Found root folder ID: ${rootFolderId}`);
+          spinner.start(`Uploading ${filesToUpload.length} file(s)...`);
+        } else {
+          spinner.fail('Could not find valid root folder ID');
+          console.log(chalk.yellow('Try manually specifying rootFolderId in .olcli.json'));
+          process.exit(1);
+        }
+      }
+
+      // Fetch folder tree once so uploads go into correct subfolders
+      spinner.text = 'Resolving folder structure...';
+      let folderTree = await client.getFolderTreeFromSocket(projectId!);
+      if (!folderTree) {
+        // Fallback: build minimal tree with just root
+        const resolvedRootId = rootFolderId || await client.getRootFolderId(projectId!);
+        folderTree = { '': resolvedRootId };
+      }
+
+      spinner.text = `Uploading ${filesToUpload.length} file(s)...`;
+
+      let uploaded = 0;
+      let edited = 0;
+      let failed = 0;
+      let folderNotFoundCount = 0;
+
+      const uploadedFiles: typeof filesToUpload = [];
+      const writer = new DocWriter(() => client.openRealtimeSession(projectId!), { realtime: options.realtime !== false });
+
+      for (const file of filesToUpload) {
+        try {
+          const how = await writer.write(file.relativePath, file.content, () =>
+            client.uploadFile(projectId!, rootFolderId || null, file.relativePath, file.content, folderTree!));
+          if (how === 'edited') edited++;
+          uploadedFiles.push(file);
+          uploaded++;
+          spinner.text = `Uploading... (${uploaded}/${filesToUpload.length})`;
+        } catch (error: any) {
+          console.error(chalk.yellow(`\n  Warning: Failed to upload ${file.relativePath}: ${error.message}`));
+          failed++;
+          if (error.message.includes('folder_not_found')) {
+            folderNotFoundCount++;
+          }
+        }
+      }
+      await writer.close();
+
+      // Update last push time and record uploaded content as in sync
+      if (meta) {
+        meta.lastPush = new Date().toISOString();
+        const manifest = new Set(meta.remoteManifest ?? []);
+        for (const file of uploadedFiles) {
+          if (useHashes) {
+            meta.localFiles![file.relativePath] = fileState(file.content);
+            meta.remoteFiles![file.relativePath] = fileState(file.content);
+          }
+          writeBase(targetDir, file.relativePath, file.content);
+          manifest.add(file.relativePath);
+        }
+        meta.remoteManifest = Array.from(manifest).sort();
+        writeProjectMeta(targetDir, meta);
+      }
+
+      if (failed > 0) {
+        spinner.warn(`Uploaded ${uploaded} file(s), ${failed} failed`);
+        if (folderNotFoundCount > 0 && !rootFolderId) {
+          console.log(chalk.yellow('  Tip: Try running with --probe-folder to find the correct folder ID'));
+        }
+      } else {
+        const inPlace = edited > 0 ? ` (${edited} edited in place)` : '';
+        spinner.succeed(`Uploaded ${uploaded} file(s) to "${projectName}"${inPlace}`);
+      }
+
+      setLastProject(projectId!);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('sync [dir]')
+  .description('Pull then push (bidirectional sync, propagates local deletions)')
+  .option('--project <name>', 'Project name or ID')
+  .option('--verbose', 'Show detailed file operations')
+  .option('--no-delete', 'Do not propagate local deletions to the remote (safer)')
+  .option('--dry-run', 'Show what would change without applying')
+  .option('--no-default-ignore', 'Disable built-in LaTeX artifact ignore list (only .olignore applies)')
+  .option('--no-ignore', 'Disable all ignore filtering (escape hatch — uploads everything)')
+  .option('--show-ignored', 'Print files skipped by ignore rules')
+  .option('--no-realtime', 'Re-upload changed docs instead of editing them over the collaboration socket')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (dir, options) => {
+    const targetDir = dir || '.';
+
+    // Check if this is an existing project directory
+    const meta = readProjectMeta(targetDir);
+    let projectId: string | undefined;
+    let projectName: string | undefined;
+
+    if (meta) {
+      projectId = meta.projectId;
+      projectName = meta.projectName;
+    }
+
+    if (options.project) {
+      projectName = options.project;
+      projectId = undefined;
+    }
+
+    if (!projectId && !projectName) {
+      console.error(chalk.red('No project specified.'));
+      console.error('Either run from a directory with .olcli.json or use --project');
+      process.exit(1);
+    }
+
+    const spinner = ora('Connecting...').start();
+    try {
+      const client = await getClient(options.cookie);
+
+      // Resolve project
+      if (!projectId) {
+        let proj = await client.getProjectById(projectName!);
+        if (!proj) {
+          proj = await client.getProject(projectName!);
+        }
+        if (!proj) {
+          spinner.fail(`Project not found: ${projectName}`);
+          process.exit(1);
+        }
+        projectId = proj.id;
+        projectName = proj.name;
+      }
+
+      // Step 1: Download current state
+      spinner.text = 'Downloading project...';
+      const zipBuffer = await client.downloadProject(projectId);
+
+      const AdmZip = (await import('adm-zip')).default;
+      const zip = new AdmZip(zipBuffer);
+
+      // Create target directory
+      if (!existsSync(targetDir)) {
+        mkdirSync(targetDir, { recursive: true });
+      }
+
+      // Build ignore context (defaults + .olignore + .olignore.local)
+      const ignoreCtx = loadIgnore(targetDir, {
+        noDefaults: options.defaultIgnore === false,
+        disableAll: options.ignore === false,
+      });
+
+      // Track local modifications
+      const localFiles = new Map<string, { mtime: Date; content: Buffer }>();
+      const filesIgnored: string[] = [];
+      const { readdirSync, statSync } = await import('node:fs');
+
+      function scanLocalFiles(currentDir: string, relativeBase: string = '') {
+        if (!existsSync(currentDir)) return;
+        const entries = readdirSync(currentDir, { withFileTypes: true });
+        const texSiblings = buildTexSiblingSet(
+          entries.filter((e) => !e.isDirectory()).map((e) => e.name),
+        );
+        for (const entry of entries) {
+          if (entry.name.startsWith('.')) continue;
+          const fullPath = join(currentDir, entry.name);
+          const relativePath = relativeBase ? `${relativeBase}/${entry.name}` : entry.name;
+          if (entry.isDirectory()) {
             if (shouldIgnore(`${relativePath}/`, ignoreCtx)) {
               filesIgnored.push(`${relativePath}/`);
               continue;
@@ -999,7 +3323,7 @@ program
       }
 
       // Read local files before overwriting
-      if (existsSync(metaPath)) {
+      if (meta) {
         scanLocalFiles(targetDir);
       }
 
@@ -1012,172 +3336,928 @@ program
         spinner.start();
       }
 
-      // Extract remote files
-      const remoteFiles = new Map<string, Buffer>();
-      for (const entry of zip.getEntries()) {
-        if (!entry.isDirectory) {
-          remoteFiles.set(entry.entryName, entry.getData());
+      // Extract remote files
+      const remoteFiles = new Map<string, Buffer>();
+      for (const entry of zip.getEntries()) {
+        if (!entry.isDirectory) {
+          remoteFiles.set(entry.entryName, entry.getData());
+        }
+      }
+
+      // Previous state: content hashes if recorded, else last pull time
+      const lastPull = meta?.lastPull ? new Date(meta.lastPull) : undefined;
+      const useHashes = hasHashManifest(meta);
+      let previousManifest: string[] = [];
+      if (Array.isArray(meta?.remoteManifest)) {
+        previousManifest = meta!.remoteManifest!;
+      } else if (useHashes) {
+        previousManifest = Object.keys(meta!.remoteFiles!);
+      }
+
+      const filesToUpload: { path: string; content: Buffer }[] = [];
+      const filesUpdatedLocally: string[] = [];
+      const filesKeptLocal: string[] = [];
+      const filesNewLocal: string[] = [];
+      const filesDeletedRemote: string[] = [];
+      const filesDeletedLocally: string[] = [];
+      const filesDeleteSkipped: { path: string; reason: string }[] = [];
+
+      // Detect locally-deleted files: present in previous manifest, missing locally,
+      // still present on the remote. Propagate the deletion to the remote BEFORE
+      // we write remote contents back over the working tree (otherwise the file
+      // would be silently restored — the bug reported in #7).
+      // Conflict policy: if the project has no previous manifest yet (first sync),
+      // we cannot distinguish "never existed locally" from "deleted locally", so
+      // skip deletion propagation on the very first sync.
+      if (options.delete !== false && previousManifest.length > 0 && meta) {
+        const locallyDeleted: string[] = [];
+        for (const path of previousManifest) {
+          if (path === 'output.pdf' || path.endsWith('/output.pdf')) continue;
+          if (!localFiles.has(path) && remoteFiles.has(path)) {
+            locallyDeleted.push(path);
+          }
+        }
+
+        if (locallyDeleted.length > 0) {
+          spinner.text = `Propagating ${locallyDeleted.length} local deletion(s) to remote...`;
+          for (const path of locallyDeleted) {
+            if (options.dryRun) {
+              filesDeletedRemote.push(path);
+              remoteFiles.delete(path);
+              continue;
+            }
+            try {
+              await client.deleteByPath(projectId, path);
+              filesDeletedRemote.push(path);
+              // Drop from remoteFiles so we don't re-extract it below
+              remoteFiles.delete(path);
+            } catch (err: any) {
+              filesDeleteSkipped.push({ path, reason: err.message || String(err) });
+            }
+          }
+        }
+      }
+
+      spinner.text = 'Comparing files...';
+
+      // Contents both sides agree on after this sync (refreshes base snapshots
+      // and remote hashes) and contents left in the working tree (local hashes)
+      const settled = new Map<string, Buffer>();
+      const localAfter = new Map<string, Buffer>();
+      const filesMerged: string[] = [];
+      const filesConflicted: string[] = [];
+      const filesBinaryConflict: string[] = [];
+      const markupPaths = new Set(meta?.trackChangesMarkup ?? []);
+      const filesMarkup: string[] = [];
+
+      // Write remote files, but preserve (and merge) local modifications
+      for (const [path, remoteContent] of remoteFiles) {
+        const filePath = join(targetDir, path);
+        const fileDir = dirname(filePath);
+        const localFile = localFiles.get(path);
+        // Markup from pull --with-track-changes is neither pushed nor
+        // overwritten; the file keeps its recorded state until a plain pull
+        if (localFile && markupPaths.has(path)) {
+          filesMarkup.push(path);
+          continue;
+        }
+        const base = readBase(targetDir, path);
+        const recordedRemote = meta?.remoteFiles?.[path];
+        // Content hashes tell exactly whether the local copy changed; without
+        // them, use the base snapshot, and failing that the last pull time.
+        const localChanged = localFile !== undefined && (useHashes
+          ? isChanged(meta!.localFiles![path], localFile.content)
+          : base
+            ? !localFile.content.equals(base)
+            : lastPull !== undefined && localFile.mtime > lastPull);
+
+        const remoteChanged = recordedRemote
+          ? isChanged(recordedRemote, remoteContent)
+          : base !== undefined && !remoteContent.equals(base);
+
+        const result = reconcileFile({
+          local: localFile?.content,
+          remote: remoteContent,
+          base,
+          localChanged,
+          remoteChanged
+        });
+
+        // Only touch files whose content changes, to leave mtimes alone
+        if (!options.dryRun && (!localFile || !localFile.content.equals(result.working))) {
+          if (!existsSync(fileDir)) {
+            mkdirSync(fileDir, { recursive: true });
+          }
+          writeFileSync(filePath, result.working);
+        }
+        // A conflicted file stays "modified locally" until its markers are resolved
+        if (result.action !== 'conflict') localAfter.set(path, result.working);
+        settled.set(path, result.agreed);
+
+        switch (result.action) {
+          case 'pull':
+            filesUpdatedLocally.push(path);
+            break;
+          case 'push':
+            // Only the local side changed - keep local, queue for upload
+            filesToUpload.push({ path, content: result.working });
+            filesKeptLocal.push(path);
+            break;
+          case 'overwrite':
+            // Binary (or no common ancestor) edited on both sides: local wins
+            filesToUpload.push({ path, content: result.working });
+            filesBinaryConflict.push(path);
+            break;
+          case 'merged':
+            filesToUpload.push({ path, content: result.working });
+            filesMerged.push(path);
+            break;
+          case 'conflict':
+            // Markers stay local; the resolved file is pushed on a later sync
+            filesConflicted.push(path);
+            break;
+        }
+      }
+
+      // Check for new local files (not in remote)
+      for (const [path, localFile] of localFiles) {
+        if (path === 'output.pdf' || path.endsWith('/output.pdf')) {
+          continue;
+        }
+        if (!remoteFiles.has(path)) {
+          // Tracked, untouched locally, gone from the remote: deleted on Overleaf
+          const deletedRemotely = useHashes && options.delete !== false &&
+            previousManifest.includes(path) &&
+            !isChanged(meta!.localFiles![path], localFile.content);
+          if (deletedRemotely) {
+            if (!options.dryRun) {
+              rmSync(join(targetDir, path), { force: true });
+            }
+            filesDeletedLocally.push(path);
+            continue;
+          }
+          filesToUpload.push({ path, content: localFile.content });
+          filesNewLocal.push(path);
+          settled.set(path, localFile.content);
+          localAfter.set(path, localFile.content);
+        }
+      }
+
+      // Upload local changes (existing docs are edited in place)
+      if (filesToUpload.length > 0 && !options.dryRun) {
+        spinner.text = `Uploading ${filesToUpload.length} local change(s)...`;
+        const writer = new DocWriter(() => client.openRealtimeSession(projectId!), { realtime: options.realtime !== false });
+        try {
+          for (const file of filesToUpload) {
+            await writer.write(file.path, file.content, () => client.uploadFile(projectId!, null, file.path, file.content));
+          }
+        } finally {
+          await writer.close();
+        }
+      }
+
+      // Refresh manifest of remote files post-sync (deletions out, new uploads in)
+      const newManifest = new Set<string>(remoteFiles.keys());
+      for (const f of filesToUpload) newManifest.add(f.path);
+      for (const p of filesDeletedRemote) newManifest.delete(p);
+
+      // Update metadata, content hashes and base snapshots
+      if (!options.dryRun) {
+        const remoteStates: FileStates = {};
+        const localStates: FileStates = {};
+        for (const [path, content] of settled) {
+          writeBase(targetDir, path, content);
+          remoteStates[path] = fileState(content);
+        }
+        for (const [path, content] of localAfter) {
+          localStates[path] = fileState(content);
+        }
+        for (const path of filesMarkup) {
+          if (meta?.remoteFiles?.[path]) remoteStates[path] = meta.remoteFiles[path];
+          if (meta?.localFiles?.[path]) localStates[path] = meta.localFiles[path];
+        }
+        for (const path of [...filesDeletedRemote, ...filesDeletedLocally]) {
+          removeBase(targetDir, path);
+        }
+        const now = new Date().toISOString();
+        writeProjectMeta(targetDir, {
+          ...(meta?.projectId === projectId ? meta : {}),
+          projectId,
+          projectName: projectName!,
+          lastPull: now,
+          lastSync: now,
+          remoteManifest: Array.from(newManifest).sort(),
+          remoteFiles: remoteStates,
+          localFiles: localStates,
+          trackChangesMarkup: filesMarkup.length > 0 ? filesMarkup : undefined
+        });
+      }
+
+      if (options.dryRun) {
+        spinner.succeed(`Dry-run sync "${projectName}" (no changes applied)`);
+      } else if (filesConflicted.length > 0) {
+        spinner.warn(`Synced "${projectName}" with ${filesConflicted.length} conflict(s)`);
+      } else {
+        spinner.succeed(`Synced "${projectName}"`);
+      }
+
+      // Summary
+      console.log(chalk.dim(`  ↓ ${filesUpdatedLocally.length} pulled from remote`));
+      console.log(chalk.dim(`  ↑ ${filesToUpload.length} pushed to remote`));
+      if (filesMerged.length > 0) {
+        console.log(chalk.dim(`  ⇄ ${filesMerged.length} merged (changed on both sides)`));
+      }
+      if (filesConflicted.length > 0) {
+        console.log(chalk.yellow(`  ⚠ ${filesConflicted.length} conflict(s) — resolve the markers, then sync again:`));
+        for (const f of filesConflicted) {
+          console.log(chalk.yellow(`      ${f}`));
+        }
+      }
+      if (filesBinaryConflict.length > 0) {
+        console.log(chalk.yellow(`  ⚠ ${filesBinaryConflict.length} binary file(s) changed on both sides (local kept)`));
+      }
+      if (filesMarkup.length > 0) {
+        console.log(chalk.yellow(`  ⚠ ${filesMarkup.length} file(s) with tracked-change markup skipped — run olcli pull to replace it:`));
+        for (const f of filesMarkup) {
+          console.log(chalk.yellow(`      ${f}`));
+        }
+      }
+      if (filesDeletedRemote.length > 0) {
+        console.log(chalk.dim(`  ✖ ${filesDeletedRemote.length} deleted on remote`));
+      }
+      if (filesDeletedLocally.length > 0) {
+        console.log(chalk.dim(`  ✖ ${filesDeletedLocally.length} deleted locally (removed on remote)`));
+      }
+      if (filesDeleteSkipped.length > 0) {
+        console.log(chalk.yellow(`  ⚠ ${filesDeleteSkipped.length} deletion(s) failed (kept remote)`));
+      }
+
+      if (options.verbose) {
+        if (filesDeletedRemote.length > 0) {
+          console.log(chalk.red('\n  Deleted on remote (matched local deletion):'));
+          for (const f of filesDeletedRemote) {
+            console.log(chalk.dim(`    ${f}`));
+          }
+        }
+        if (filesDeletedLocally.length > 0) {
+          console.log(chalk.red('\n  Deleted locally (removed on remote):'));
+          for (const f of filesDeletedLocally) {
+            console.log(chalk.dim(`    ${f}`));
+          }
+        }
+        if (filesDeleteSkipped.length > 0) {
+          console.log(chalk.yellow('\n  Deletion skipped (will retry on next sync):'));
+          for (const { path, reason } of filesDeleteSkipped) {
+            console.log(chalk.dim(`    ${path}  —  ${reason}`));
+          }
+        }
+        if (filesKeptLocal.length > 0) {
+          console.log(chalk.yellow('\n  Local changes pushed (local was newer):'));
+          for (const f of filesKeptLocal) {
+            console.log(chalk.dim(`    ${f}`));
+          }
+        }
+        if (filesMerged.length > 0) {
+          console.log(chalk.cyan('\n  Merged local and remote changes:'));
+          for (const f of filesMerged) {
+            console.log(chalk.dim(`    ${f}`));
+          }
+        }
+        if (filesBinaryConflict.length > 0) {
+          console.log(chalk.yellow('\n  Binary conflicts (local kept, remote overwritten):'));
+          for (const f of filesBinaryConflict) {
+            console.log(chalk.dim(`    ${f}`));
+          }
+        }
+        if (filesNewLocal.length > 0) {
+          console.log(chalk.green('\n  New local files pushed:'));
+          for (const f of filesNewLocal) {
+            console.log(chalk.dim(`    ${f}`));
+          }
+        }
+      }
+
+      setLastProject(projectId);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('diff [paths...]')
+  .description('Show differences between the working tree and the remote project')
+  .option('--dir <dir>', 'Project directory (default: current directory)')
+  .option('--project <name>', 'Project name or ID (overrides .olcli.json)')
+  .option('--stat', 'Show a per-file summary of changed lines')
+  .option('--name-only', 'Show only the paths of changed files')
+  .option('--json', 'Output as JSON')
+  .option('-U, --unified <n>', 'Lines of context around changes', (v) => parseInt(v, 10), 3)
+  .option('--no-default-ignore', 'Disable built-in LaTeX artifact ignore list (only .olignore applies)')
+  .option('--no-ignore', 'Disable all ignore filtering (escape hatch — compares everything)')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (paths: string[], options) => {
+    const targetDir = options.dir || '.';
+    const spinner = ora('Connecting...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, options.project, targetDir);
+
+      spinner.text = 'Downloading project...';
+      const zipBuffer = await client.downloadProject(proj.id);
+      const AdmZip = (await import('adm-zip')).default;
+      const zip = new AdmZip(zipBuffer);
+
+      const ignoreCtx = loadIgnore(targetDir, {
+        noDefaults: options.defaultIgnore === false,
+        disableAll: options.ignore === false,
+      });
+
+      // Path arguments are relative to the current directory; match them
+      // against project paths as exact files or folder prefixes.
+      const filters = paths.map((p) => relative(resolve(targetDir), resolve(p)).replace(/\\/g, '/'));
+      const selected = (path: string) =>
+        filters.length === 0 ||
+        filters.some((f) => f === '' || path === f || path.startsWith(`${f}/`));
+
+      const remote = new Map<string, Buffer>();
+      const remoteNames = zip.getEntries().filter((e) => !e.isDirectory).map((e) => e.entryName);
+      for (const entry of zip.getEntries()) {
+        if (entry.isDirectory || !selected(entry.entryName)) continue;
+        const folder = dirname(entry.entryName);
+        const siblings = buildTexSiblingSet(
+          remoteNames.filter((n) => dirname(n) === folder).map((n) => basename(n)),
+        );
+        if (shouldIgnore(entry.entryName, ignoreCtx, siblings)) continue;
+        remote.set(entry.entryName, entry.getData());
+      }
+      const local = new Map<string, Buffer>();
+      if (existsSync(targetDir)) {
+        for (const path of listProjectFiles(targetDir, ignoreCtx)) {
+          if (selected(path)) local.set(path, readFileSync(join(targetDir, path)));
+        }
+      }
+
+      interface FileDiff {
+        path: string;
+        status: 'modified' | 'added' | 'deleted';
+        binary: boolean;
+        remote: FileState | null;
+        local: FileState | null;
+        additions: number;
+        deletions: number;
+        lines?: string[];
+      }
+
+      const diffs: FileDiff[] = [];
+      for (const path of Array.from(new Set([...remote.keys(), ...local.keys()])).sort()) {
+        const before = remote.get(path);
+        const after = local.get(path);
+        if (before && after && before.equals(after)) continue;
+        const binary = (before !== undefined && !isTextContent(before)) ||
+          (after !== undefined && !isTextContent(after));
+        const entry: FileDiff = {
+          path,
+          status: !before ? 'added' : !after ? 'deleted' : 'modified',
+          binary,
+          remote: before ? fileState(before) : null,
+          local: after ? fileState(after) : null,
+          additions: 0,
+          deletions: 0,
+        };
+        if (!binary) {
+          const unified = unifiedDiff(
+            before?.toString('utf-8') ?? '',
+            after?.toString('utf-8') ?? '',
+            options.unified
+          );
+          entry.additions = unified.additions;
+          entry.deletions = unified.deletions;
+          entry.lines = unified.lines;
+        }
+        diffs.push(entry);
+      }
+
+      spinner.stop();
+
+      if (options.json) {
+        console.log(JSON.stringify(diffs.map((d) => ({
+          ...d,
+          lines: undefined,
+          diff: d.lines?.join('\n'),
+        })), null, 2));
+        return;
+      }
+
+      if (diffs.length === 0) {
+        if (!options.nameOnly) console.log(chalk.green(`No differences from "${proj.name}"`));
+        setLastProject(proj.id);
+        return;
+      }
+
+      const describe = (state: FileState | null) =>
+        state ? `${(state.size / 1024).toFixed(1)} KB, sha1 ${state.hash.slice(0, 8)}` : 'none';
+
+      if (options.nameOnly) {
+        for (const d of diffs) console.log(d.path);
+      } else if (options.stat) {
+        const width = Math.max(...diffs.map((d) => d.path.length));
+        const widest = Math.max(...diffs.map((d) => d.additions + d.deletions), 1);
+        const barWidth = Math.min(widest, 50);
+        for (const d of diffs) {
+          const name = d.path.padEnd(width);
+          if (d.binary) {
+            console.log(` ${name} | Bin ${d.remote?.size ?? 0} -> ${d.local?.size ?? 0} bytes`);
+            continue;
+          }
+          const total = d.additions + d.deletions;
+          const plus = Math.round((d.additions / widest) * barWidth);
+          const minus = Math.round((d.deletions / widest) * barWidth);
+          console.log(` ${name} | ${String(total).padStart(5)} ${chalk.green('+'.repeat(plus))}${chalk.red('-'.repeat(minus))}`);
+        }
+        const additions = diffs.reduce((n, d) => n + d.additions, 0);
+        const deletions = diffs.reduce((n, d) => n + d.deletions, 0);
+        console.log(` ${diffs.length} file(s) changed, ${additions} insertion(s)(+), ${deletions} deletion(s)(-)`);
+      } else {
+        for (const d of diffs) {
+          if (d.binary) {
+            console.log(chalk.bold(`Binary file ${d.path} differs (remote: ${describe(d.remote)}; local: ${describe(d.local)})`));
+            continue;
+          }
+          console.log(chalk.bold(`--- ${d.remote ? `remote/${d.path}` : '/dev/null'}`));
+          console.log(chalk.bold(`+++ ${d.local ? `local/${d.path}` : '/dev/null'}`));
+          printUnifiedDiff(d.lines!);
+        }
+      }
+
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('status [dir]')
+  .description('Show the sync state of every file (exits 1 when out of sync)')
+  .option('--json', 'Output as JSON')
+  .option('--show-ignored', 'Also list files skipped by ignore rules')
+  .option('--no-default-ignore', 'Disable built-in LaTeX artifact ignore list (only .olignore applies)')
+  .option('--no-ignore', 'Disable all ignore filtering')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (dir, options) => {
+    const targetDir = dir || '.';
+    const meta = readProjectMeta(targetDir);
+    if (!meta) {
+      console.error(chalk.red(`Not a synced project directory: ${targetDir}`));
+      console.error('Run olcli pull or olcli sync first.');
+      process.exit(1);
+    }
+
+    const spinner = ora('Downloading project...').start();
+    try {
+      const client = await getClient(options.cookie);
+      // Always compare contents: the project's lastUpdated is a server
+      // timestamp and can't be ordered against our local sync times
+      const AdmZip = (await import('adm-zip')).default;
+      const zip = new AdmZip(await client.downloadProject(meta.projectId));
+      const remoteContent = new Map<string, Buffer>();
+      for (const entry of zip.getEntries()) {
+        if (!entry.isDirectory) remoteContent.set(entry.entryName, entry.getData());
+      }
+
+      spinner.text = 'Scanning files...';
+      const ignoreCtx = loadIgnore(targetDir, {
+        noDefaults: options.defaultIgnore === false,
+        disableAll: options.ignore === false,
+      });
+      const ignored: string[] = [];
+      const local = new Map<string, { content: Buffer; mtime: Date }>();
+      const { statSync } = await import('node:fs');
+      for (const path of listProjectFiles(targetDir, ignoreCtx, { ignored })) {
+        const filePath = join(targetDir, path);
+        local.set(path, { content: readFileSync(filePath), mtime: statSync(filePath).mtime });
+      }
+
+      const entries = computeStatus({
+        meta,
+        remoteContent,
+        local,
+        ignored,
+        readBase: (path) => readBase(targetDir, path),
+      });
+      const outOfSync = entries.filter((e) => OUT_OF_SYNC.has(e.status));
+      spinner.stop();
+
+      if (options.json) {
+        console.log(JSON.stringify({
+          project: { id: meta.projectId, name: meta.projectName },
+          lastSync: meta.lastSync ?? meta.lastPull ?? null,
+          inSync: outOfSync.length === 0,
+          files: entries,
+        }, null, 2));
+      } else {
+        console.log(chalk.bold(`Project: ${meta.projectName}`));
+        const lastSync = meta.lastSync ?? meta.lastPull;
+        if (lastSync) console.log(chalk.dim(`Last synced: ${new Date(lastSync).toLocaleString()}`));
+
+        const groups: Array<{ status: FileStatus; title: string; hint: string; color: (s: string) => string }> = [
+          { status: 'both-modified', title: 'Modified on both sides', hint: 'olcli sync to merge', color: chalk.magenta },
+          { status: 'modified-locally', title: 'Modified locally', hint: 'olcli push to upload', color: chalk.yellow },
+          { status: 'new-locally', title: 'New locally', hint: 'olcli push to upload', color: chalk.green },
+          { status: 'deleted-locally', title: 'Deleted locally', hint: 'olcli sync to delete on Overleaf', color: chalk.red },
+          { status: 'modified-remotely', title: 'Modified on Overleaf', hint: 'olcli pull to download', color: chalk.cyan },
+          { status: 'new-remotely', title: 'New on Overleaf', hint: 'olcli pull to download', color: chalk.cyan },
+          { status: 'deleted-remotely', title: 'Deleted on Overleaf', hint: 'olcli sync to delete locally', color: chalk.red },
+        ];
+        if (options.showIgnored) {
+          groups.push({ status: 'ignored', title: 'Ignored', hint: 'see olcli ignored', color: chalk.dim });
+        }
+        for (const group of groups) {
+          const paths = entries.filter((e) => e.status === group.status).map((e) => e.path);
+          if (paths.length === 0) continue;
+          console.log(`\n${chalk.bold(group.title)} ${chalk.dim(`(${group.hint})`)}:`);
+          for (const path of paths) console.log(`  ${group.color(path)}`);
         }
-      }
 
-      // Merge: local changes take precedence for files modified after last pull
-      let lastPull: Date | undefined;
-      let previousManifest: string[] = [];
-      if (existsSync(metaPath)) {
-        const meta = JSON.parse(readFileSync(metaPath, 'utf-8'));
-        lastPull = meta.lastPull ? new Date(meta.lastPull) : undefined;
-        if (Array.isArray(meta.remoteManifest)) {
-          previousManifest = meta.remoteManifest as string[];
+        console.log();
+        if (outOfSync.length === 0) {
+          console.log(chalk.green('Everything up to date'));
+        } else {
+          console.log(chalk.yellow(`${outOfSync.length} file(s) out of sync`));
         }
       }
 
-      const filesToUpload: { path: string; content: Buffer }[] = [];
-      const filesUpdatedLocally: string[] = [];
-      const filesKeptLocal: string[] = [];
-      const filesNewLocal: string[] = [];
-      const filesDeletedRemote: string[] = [];
-      const filesDeleteSkipped: { path: string; reason: string }[] = [];
+      setLastProject(meta.projectId);
+      if (outOfSync.length > 0) process.exitCode = 1;
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
 
-      // Detect locally-deleted files: present in previous manifest, missing locally,
-      // still present on the remote. Propagate the deletion to the remote BEFORE
-      // we write remote contents back over the working tree (otherwise the file
-      // would be silently restored — the bug reported in #7).
-      // Conflict policy: if the project has no previous manifest yet (first sync),
-      // we cannot distinguish "never existed locally" from "deleted locally", so
-      // skip deletion propagation on the very first sync.
-      if (options.delete !== false && previousManifest.length > 0 && existsSync(metaPath)) {
-        const locallyDeleted: string[] = [];
-        for (const path of previousManifest) {
-          if (path === 'output.pdf' || path.endsWith('/output.pdf')) continue;
-          if (!localFiles.has(path) && remoteFiles.has(path)) {
-            locallyDeleted.push(path);
-          }
+/** Shortest --interval for watch: every poll downloads the whole project */
+const MIN_WATCH_INTERVAL = 5;
+
+program
+  .command('watch [dir]')
+  .description('Continuously sync a project directory (push local edits, pull remote changes)')
+  .option('--interval <seconds>', `Seconds between remote polls (at least ${MIN_WATCH_INTERVAL})`, '30')
+  .option('--debounce <ms>', 'Quiet period before pushing local edits', '1000')
+  .option('--compile', 'Compile after each push and refresh the local PDF')
+  .option('-o, --output <path>', 'PDF path for --compile (default: <dir>/output.pdf)')
+  .option('--no-delete', 'Do not propagate deletions in either direction')
+  .option('--no-default-ignore', 'Disable built-in LaTeX artifact ignore list (only .olignore applies)')
+  .option('--no-ignore', 'Disable all ignore filtering (escape hatch — uploads everything)')
+  .option('--no-realtime', 'Re-upload changed docs instead of editing them over the collaboration socket')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (dir, options) => {
+    const interval = Number(options.interval);
+    if (!Number.isFinite(interval) || interval < MIN_WATCH_INTERVAL) {
+      console.error(chalk.red(`Invalid --interval: ${options.interval} (expected seconds >= ${MIN_WATCH_INTERVAL})`));
+      process.exit(1);
+    }
+    const debounce = Number(options.debounce);
+    if (!Number.isInteger(debounce) || debounce <= 0) {
+      console.error(chalk.red(`Invalid --debounce: ${options.debounce} (expected milliseconds > 0)`));
+      process.exit(1);
+    }
+
+    const targetDir = dir || '.';
+    const meta = readProjectMeta(targetDir);
+
+    if (!meta) {
+      console.error(chalk.red('No project found.'));
+      console.error('Run from a directory with .olcli.json (see: olcli pull)');
+      process.exit(1);
+    }
+    if (!hasHashManifest(meta)) {
+      console.error(chalk.red('.olcli.json has no content hashes yet.'));
+      console.error('Run olcli sync once, then start watching.');
+      process.exit(1);
+    }
+
+    const spinner = ora('Connecting...').start();
+    try {
+      const client = await getClient(options.cookie);
+      spinner.stop();
+
+      const ignoreCtx = loadIgnore(targetDir, {
+        noDefaults: options.defaultIgnore === false,
+        disableAll: options.ignore === false,
+      });
+
+      const icons: Record<WatchEventKind, string> = {
+        'push': chalk.green('↑'),
+        'pull': chalk.cyan('↓'),
+        'merge': chalk.cyan('⇄'),
+        'conflict': chalk.yellow('⚠'),
+        'markup': chalk.yellow('⚠'),
+        'delete-remote': chalk.red('✖'),
+        'delete-local': chalk.red('✖'),
+        'compile': chalk.magenta('⚙'),
+        'error': chalk.red('!'),
+      };
+      const labels: Partial<Record<WatchEventKind, string>> = {
+        'merge': 'merged',
+        'conflict': 'conflict — resolve the markers and save',
+        'markup': 'tracked-change markup not pushed — run olcli pull to replace it',
+        'delete-remote': 'deleted on remote',
+        'delete-local': 'deleted locally (removed on remote)',
+      };
+      const log = (event: WatchEvent) => {
+        const time = chalk.dim(new Date().toLocaleTimeString());
+        let text: string;
+        if (event.kind === 'compile') {
+          text = event.message === 'success' ? 'compiled' : `compile ${event.message}`;
+        } else if (event.kind === 'error') {
+          text = chalk.red(event.message || 'unknown error');
+        } else {
+          text = labels[event.kind] ? `${event.path}  ${chalk.dim(labels[event.kind]!)}` : event.path!;
         }
+        console.log(`${time} ${icons[event.kind]} ${text}`);
+      };
+
+      const handle = watchProject(client, {
+        dir: targetDir,
+        intervalMs: interval * 1000,
+        debounceMs: debounce,
+        propagateDeletes: options.delete !== false,
+        realtime: options.realtime !== false,
+        ignore: ignoreCtx,
+        compileOutput: options.compile ? (options.output || join(targetDir, 'output.pdf')) : undefined,
+        compileOptions: options.compile ? await resolveCompileOptions(client, meta.projectId, {}, meta.compile) : undefined,
+      }, log);
+
+      console.log(chalk.bold(`Watching "${meta.projectName}" in ${targetDir}/`));
+      console.log(chalk.dim(`Polling remote every ${interval}s. Press Ctrl+C to stop.`));
+      setLastProject(meta.projectId);
+
+      process.once('SIGINT', async () => {
+        console.log(chalk.dim('\nStopping...'));
+        await handle.stop();
+        process.exit(0);
+      });
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
 
-        if (locallyDeleted.length > 0) {
-          spinner.text = `Propagating ${locallyDeleted.length} local deletion(s) to remote...`;
-          for (const path of locallyDeleted) {
-            if (options.dryRun) {
-              filesDeletedRemote.push(path);
-              remoteFiles.delete(path);
-              continue;
-            }
-            try {
-              await client.deleteByPath(projectId, path);
-              filesDeletedRemote.push(path);
-              // Drop from remoteFiles so we don't re-extract it below
-              remoteFiles.delete(path);
-            } catch (err: any) {
-              filesDeleteSkipped.push({ path, reason: err.message || String(err) });
-            }
-          }
+// ─────────────────────────────────────────────────────────────────────────────
+// HISTORY COMMANDS
+// ─────────────────────────────────────────────────────────────────────────────
+
+function formatHistoryUsers(users: Array<HistoryUser | null> | undefined): string {
+  const names = (users ?? []).map((u) => {
+    if (!u) return 'Anonymous';
+    const name = [u.first_name, u.last_name].filter(Boolean).join(' ');
+    return name || u.email || u.id;
+  });
+  return names.length > 0 ? Array.from(new Set(names)).join(', ') : 'Anonymous';
+}
+
+function parseVersion(value: string): number {
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`Invalid version: ${value}`);
+  }
+  return version;
+}
+
+const historyCmd = program
+  .command('history')
+  .description('Browse and restore the project history');
+
+historyCmd
+  .command('log [project]')
+  .description('List recent changes (who changed what, and when)')
+  .option('-n, --limit <n>', 'Number of entries to show', (v) => parseInt(v, 10), 20)
+  .option('--path <path>', 'Only show changes to this file')
+  .option('--json', 'Output as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (project, options) => {
+    const spinner = ora('Fetching history...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+
+      let updates: HistoryUpdate[];
+      if (options.path) {
+        // Page through history until enough entries touch the path
+        const path = options.path.replace(/^\//, '');
+        updates = [];
+        let before: number | undefined;
+        while (updates.length < options.limit) {
+          const page = await client.getHistoryUpdates(proj.id, before, 50);
+          updates.push(...page.updates.filter((u) => u.pathnames.includes(path) ||
+            u.project_ops.some((op) => [op.add?.pathname, op.remove?.pathname, op.rename?.pathname, op.rename?.newPathname].includes(path))));
+          if (page.nextBeforeTimestamp === undefined || page.updates.length === 0) break;
+          before = page.nextBeforeTimestamp;
         }
+        updates = updates.slice(0, options.limit);
+      } else {
+        updates = await client.listHistoryUpdates(proj.id, options.limit);
       }
+      spinner.stop();
 
-      spinner.text = 'Comparing files...';
+      if (options.json) {
+        console.log(JSON.stringify(updates, null, 2));
+        return;
+      }
 
-      // Write remote files, but preserve local modifications
-      for (const [path, remoteContent] of remoteFiles) {
-        const filePath = join(targetDir, path);
-        const fileDir = dirname(filePath);
-        if (!existsSync(fileDir)) {
-          mkdirSync(fileDir, { recursive: true });
-        }
+      if (updates.length === 0) {
+        console.log(chalk.yellow('No history found'));
+        return;
+      }
 
-        const localFile = localFiles.get(path);
-        if (localFile && lastPull && localFile.mtime > lastPull) {
-          // Local file was modified after last pull - keep local, queue for upload if different
-          if (!localFile.content.equals(remoteContent)) {
-            filesToUpload.push({ path, content: localFile.content });
-            filesKeptLocal.push(path);
-          }
-          // Don't overwrite local file
-        } else {
-          // Write remote version
-          writeFileSync(filePath, remoteContent);
-          filesUpdatedLocally.push(path);
+      console.log(chalk.bold(`History of "${proj.name}" (newest first):\n`));
+      for (const u of updates) {
+        const when = new Date(u.meta.end_ts).toLocaleString();
+        const files = [
+          ...u.pathnames,
+          ...u.project_ops.map((op) =>
+            op.add ? `+${op.add.pathname}`
+              : op.remove ? `-${op.remove.pathname}`
+                : op.rename ? `${op.rename.pathname} → ${op.rename.newPathname}` : ''),
+        ].filter(Boolean);
+        const origin = u.meta.origin?.kind ? chalk.dim(` [${u.meta.origin.kind}]`) : '';
+        console.log(`  ${chalk.cyan(`v${u.toV}`.padEnd(7))} ${chalk.dim(when)}  ${chalk.bold(formatHistoryUsers(u.meta.users))}${origin}`);
+        if (files.length > 0) console.log(`          ${files.join(', ')}`);
+        for (const label of u.labels ?? []) {
+          console.log(`          ${chalk.yellow(`🏷 ${label.comment}`)}`);
         }
       }
+      console.log(chalk.dim('\nUse the version numbers with history diff/show/restore.'));
 
-      // Check for new local files (not in remote)
-      for (const [path, localFile] of localFiles) {
-        if (path === 'output.pdf' || path.endsWith('/output.pdf')) {
-          continue;
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+historyCmd
+  .command('diff <from> <to> [path]')
+  .description('Show changes between two versions (one file, or the list of changed files)')
+  .option('--project <name>', 'Project name or ID')
+  .option('--json', 'Output as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (fromArg, toArg, path, options) => {
+    const spinner = ora('Fetching history diff...').start();
+    try {
+      const from = parseVersion(fromArg);
+      const to = parseVersion(toArg);
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, options.project);
+
+      if (!path) {
+        const changes = (await client.getHistoryFileTreeDiff(proj.id, from, to)).filter((c) => c.operation);
+        spinner.stop();
+        if (options.json) {
+          console.log(JSON.stringify({ from, to, changes }, null, 2));
+          return;
         }
-        if (!remoteFiles.has(path)) {
-          filesToUpload.push({ path, content: localFile.content });
-          filesNewLocal.push(path);
+        if (changes.length === 0) {
+          console.log(chalk.green(`No changes between v${from} and v${to}`));
+          return;
         }
-      }
-
-      // Upload local changes
-      if (filesToUpload.length > 0 && !options.dryRun) {
-        spinner.text = `Uploading ${filesToUpload.length} local change(s)...`;
-        for (const file of filesToUpload) {
-          await client.uploadFile(projectId, null, file.path, file.content);
+        const letters = { added: chalk.green('A'), removed: chalk.red('D'), edited: chalk.yellow('M'), renamed: chalk.cyan('R') };
+        for (const c of changes) {
+          const name = c.operation === 'renamed' ? `${c.pathname} → ${c.newPathname}` : c.pathname;
+          console.log(`  ${letters[c.operation!]} ${name}`);
         }
+        setLastProject(proj.id);
+        return;
       }
 
-      // Refresh manifest of remote files post-sync (deletions out, new uploads in)
-      const newManifest = new Set<string>(remoteFiles.keys());
-      for (const f of filesToUpload) newManifest.add(f.path);
-      for (const p of filesDeletedRemote) newManifest.delete(p);
+      const pathname = path.replace(/^\//, '');
+      const diff = await client.getHistoryDiff(proj.id, pathname, from, to);
+      spinner.stop();
 
-      // Update metadata
-      if (!options.dryRun) {
-        writeFileSync(metaPath, JSON.stringify({
-          projectId,
-          projectName,
-          lastPull: new Date().toISOString(),
-          lastSync: new Date().toISOString(),
-          remoteManifest: Array.from(newManifest).sort()
-        }, null, 2));
+      if (options.json) {
+        console.log(JSON.stringify({ from, to, path: pathname, ...diff }, null, 2));
+        return;
+      }
+      if (diff.binary) {
+        console.log(`Binary file ${pathname} changed between v${from} and v${to}`);
+        return;
       }
 
-      if (options.dryRun) {
-        spinner.succeed(`Dry-run sync "${projectName}" (no changes applied)`);
-      } else {
-        spinner.succeed(`Synced "${projectName}"`);
+      const before = diff.parts.map((p) => p.u ?? p.d ?? '').join('');
+      const after = diff.parts.map((p) => p.u ?? p.i ?? '').join('');
+      const unified = unifiedDiff(before, after);
+      if (unified.lines.length === 0) {
+        console.log(chalk.green(`No changes to ${pathname} between v${from} and v${to}`));
+        return;
       }
+      console.log(chalk.bold(`--- ${pathname} (v${from})`));
+      console.log(chalk.bold(`+++ ${pathname} (v${to})`));
+      printUnifiedDiff(unified.lines);
 
-      // Summary
-      console.log(chalk.dim(`  ↓ ${filesUpdatedLocally.length} pulled from remote`));
-      console.log(chalk.dim(`  ↑ ${filesToUpload.length} pushed to remote`));
-      if (filesDeletedRemote.length > 0) {
-        console.log(chalk.dim(`  ✖ ${filesDeletedRemote.length} deleted on remote`));
+      const authors = diff.parts.filter((p) => p.meta).flatMap((p) => p.meta!.users);
+      console.log(chalk.dim(`\nChanged by: ${formatHistoryUsers(authors)}`));
+
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+historyCmd
+  .command('show <version> <path>')
+  .description('Print a file as it was at a version')
+  .option('--project <name>', 'Project name or ID')
+  .option('-o, --output <path>', 'Write to a file instead of stdout')
+  .option('--json', 'Output as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (versionArg, path, options) => {
+    const spinner = ora(`Fetching ${path}...`).start();
+    try {
+      const version = parseVersion(versionArg);
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, options.project);
+      const pathname = path.replace(/^\//, '');
+      const content = await client.getFileAtVersion(proj.id, version, pathname);
+
+      if (options.output) {
+        writeFileSync(options.output, content);
+        spinner.succeed(`Saved ${pathname} at v${version} to ${options.output}`);
+      } else {
+        spinner.stop();
+        if (options.json) {
+          const text = isTextContent(content);
+          console.log(JSON.stringify({
+            version,
+            path: pathname,
+            encoding: text ? 'utf-8' : 'base64',
+            content: content.toString(text ? 'utf-8' : 'base64'),
+          }, null, 2));
+        } else {
+          process.stdout.write(content);
+        }
       }
-      if (filesDeleteSkipped.length > 0) {
-        console.log(chalk.yellow(`  ⚠ ${filesDeleteSkipped.length} deletion(s) failed (kept remote)`));
+
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+historyCmd
+  .command('restore <version> <path>')
+  .description('Restore a file on Overleaf to its content at a version')
+  .option('--project <name>', 'Project name or ID')
+  .option('--json', 'Output as JSON')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (versionArg, path, options) => {
+    const spinner = ora(`Restoring ${path}...`).start();
+    try {
+      const version = parseVersion(versionArg);
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, options.project);
+      const pathname = path.replace(/^\//, '');
+      const result = await client.restoreFile(proj.id, version, pathname);
+
+      if (options.json) {
+        spinner.stop();
+        console.log(JSON.stringify({ version, path: pathname, ...result }, null, 2));
+      } else {
+        spinner.succeed(`Restored ${pathname} to v${version} in "${proj.name}"`);
+        console.log(chalk.dim('  Run olcli pull to update your local copy.'));
       }
 
-      if (options.verbose) {
-        if (filesDeletedRemote.length > 0) {
-          console.log(chalk.red('\n  Deleted on remote (matched local deletion):'));
-          for (const f of filesDeletedRemote) {
-            console.log(chalk.dim(`    ${f}`));
-          }
-        }
-        if (filesDeleteSkipped.length > 0) {
-          console.log(chalk.yellow('\n  Deletion skipped (will retry on next sync):'));
-          for (const { path, reason } of filesDeleteSkipped) {
-            console.log(chalk.dim(`    ${path}  —  ${reason}`));
-          }
-        }
-        if (filesKeptLocal.length > 0) {
-          console.log(chalk.yellow('\n  Local changes pushed (local was newer):'));
-          for (const f of filesKeptLocal) {
-            console.log(chalk.dim(`    ${f}`));
-          }
-        }
-        if (filesNewLocal.length > 0) {
-          console.log(chalk.green('\n  New local files pushed:'));
-          for (const f of filesNewLocal) {
-            console.log(chalk.dim(`    ${f}`));
-          }
-        }
+      setLastProject(proj.id);
+    } catch (error: any) {
+      spinner.fail(`Failed: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+historyCmd
+  .command('export-git [project] [dir]')
+  .description('Export the full history as a git repository (re-run to append new versions)')
+  .option('--cookie <session>', 'Session cookie override')
+  .action(async (project, dir, options) => {
+    const spinner = ora('Fetching history...').start();
+    try {
+      const client = await getClient(options.cookie);
+      const proj = await resolveProject(client, project);
+      const targetDir = dir || `${proj.name.replace(/[^a-zA-Z0-9-_]/g, '_')}-history`;
+
+      const result = await exportHistoryToGit(client, proj.id, targetDir, (p) => {
+        spinner.text = `Exporting v${p.version} (${p.index}/${p.total})...`;
+      });
+
+      if (result.exported === 0) {
+        spinner.info(`${targetDir} is up to date${result.lastVersion !== undefined ? ` (v${result.lastVersion})` : ''}`);
+      } else {
+        spinner.succeed(`Exported ${result.exported} version(s) of "${proj.name}" to ${targetDir}/ (up to v${result.lastVersion})`);
       }
 
-      setLastProject(projectId);
+      setLastProject(proj.id);
     } catch (error: any) {
       spinner.fail(`Failed: ${error.message}`);
       process.exit(1);
@@ -11,6 +11,7 @@ import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import * as https from 'node:https';
 import * as http from 'node:http';
+import { RealtimeSession, decodeSocketIoPayload } from './realtime.js';
 
 // Read version from package.json
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -19,14 +20,164 @@ const USER_AGENT = `olcli/${pkg.version}`;
 
 const DEFAULT_BASE_URL = 'https://www.overleaf.com';
 
+export interface ProjectUser {
+  id?: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+}
+
 export interface Project {
   id: string;
   name: string;
   lastUpdated: string;
-  lastUpdatedBy?: string;
-  owner?: { email: string; firstName?: string; lastName?: string };
+  lastUpdatedBy?: ProjectUser;
+  owner?: ProjectUser;
+  /** 'owner', 'readAndWrite', 'review' or 'readOnly' */
+  accessLevel?: string;
+  /** Whether the current user owns the project */
+  ownedByMe?: boolean;
   archived?: boolean;
   trashed?: boolean;
+  /** Names of the dashboard tags the project is filed under */
+  tags?: string[];
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  color?: string;
+  projectIds: string[];
+}
+
+/** Collaborator privilege levels, as Overleaf names them */
+export type AccessLevel = 'readOnly' | 'readAndWrite' | 'review';
+
+export interface ProjectMember {
+  id: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  privileges: AccessLevel;
+}
+
+export interface ProjectInvite {
+  id: string;
+  email: string;
+  privileges: AccessLevel;
+}
+
+export interface LinkSharing {
+  enabled: boolean;
+  readOnlyUrl?: string;
+  readAndWriteUrl?: string;
+}
+
+export type Compiler = 'pdflatex' | 'xelatex' | 'lualatex' | 'latex';
+
+export interface CompileOptions {
+  /** Doc to compile instead of the project's main document */
+  rootDocId?: string;
+  /** Overrides the project's compiler setting for this compile */
+  compiler?: Compiler;
+  draft?: boolean;
+  /** Syntax check before compiling: 'validate' only checks, 'error' stops on problems */
+  check?: 'validate' | 'error' | 'silent';
+  stopOnFirstError?: boolean;
+  /** Give up waiting for the compile response after this long */
+  timeoutMs?: number;
+}
+
+/** Build a SyncTeX lookup runs against, from a compile response */
+export interface SyncTexBuild {
+  buildId?: string;
+  clsiServerId?: string;
+}
+
+/** A box in the PDF, in PDF points from the top-left corner of the page */
+export interface PdfPosition {
+  page: number;
+  h: number;
+  v: number;
+  width: number;
+  height: number;
+}
+
+/** A position in the project sources */
+export interface CodePosition {
+  file: string;
+  line: number;
+  column: number;
+}
+
+/** texcount results from Overleaf's word count */
+export interface WordCount {
+  encoding?: string;
+  textWords: number;
+  headWords: number;
+  /** Words outside the running text: captions, footnotes, … */
+  outside: number;
+  headers: number;
+  /** Floats, tables and figures */
+  elements: number;
+  mathInline: number;
+  mathDisplay: number;
+  errors: number;
+  messages: string[];
+}
+
+/** A message of a review comment thread or of the project chat */
+export interface CommentMessage {
+  id: string;
+  content: string;
+  /** Milliseconds since the epoch */
+  timestamp: number;
+  user?: ProjectUser;
+}
+
+export type ChatMessage = CommentMessage;
+
+/** A review comment thread (Overleaf's chat service) */
+export interface CommentThread {
+  id: string;
+  messages: CommentMessage[];
+  resolved: boolean;
+  resolvedAt?: string;
+  resolvedBy?: ProjectUser;
+}
+
+/** The text a comment thread is anchored to in a doc */
+export interface CommentRange {
+  threadId: string;
+  /** Character offset in the doc */
+  position: number;
+  text: string;
+}
+
+/**
+ * A pending tracked change. Insertions are part of the doc text at
+ * `position`; deletions are not, `text` is what was deleted there.
+ */
+export interface TrackedChange {
+  id: string;
+  type: 'insert' | 'delete';
+  /** Character offset in the doc */
+  position: number;
+  text: string;
+  userId?: string;
+  timestamp?: string;
+}
+
+/** Review ranges stored with a doc */
+export interface DocRanges {
+  docId: string;
+  comments: CommentRange[];
+  changes: TrackedChange[];
+}
+
+export interface ListProjectsOptions {
+  includeArchived?: boolean;
+  includeTrashed?: boolean;
 }
 
 export interface ProjectInfo {
@@ -34,6 +185,20 @@ export interface ProjectInfo {
   name: string;
   rootDoc_id?: string;
   rootFolder: FolderEntry[];
+  compiler?: string;
+  imageName?: string;
+  spellCheckLanguage?: string;
+}
+
+/** Editable project settings (the editor's settings menu) */
+export interface ProjectSettings {
+  name?: string;
+  compiler?: string;
+  /** TeX Live image, e.g. `texlive-full:2024.1` */
+  imageName?: string;
+  /** Spell-check language code; empty string turns spell checking off */
+  spellCheckLanguage?: string;
+  rootDocId?: string;
 }
 
 export interface FolderEntry {
@@ -44,6 +209,20 @@ export interface FolderEntry {
   fileRefs: FileEntry[];
 }
 
+/** A doc, file or folder with its path in the project */
+export interface TreeEntry {
+  id: string;
+  type: 'doc' | 'file' | 'folder';
+  name: string;
+  /** Project path ('' for the root folder) */
+  path: string;
+  /** Parent folder (unset for the root folder) */
+  parentId?: string;
+  parentPath?: string;
+  /** Upload time of a file */
+  created?: string;
+}
+
 export interface DocEntry {
   _id: string;
   name: string;
@@ -52,6 +231,61 @@ export interface DocEntry {
 export interface FileEntry {
   _id: string;
   name: string;
+  created?: string;
+}
+
+export interface HistoryUser {
+  id: string;
+  email?: string;
+  first_name?: string;
+  last_name?: string;
+}
+
+export interface HistoryLabel {
+  id: string;
+  comment: string;
+  version: number;
+  created_at: string;
+}
+
+/**
+ * One entry of the project history (a group of consecutive changes).
+ * Versions run from `fromV` (exclusive) to `toV` (the version after it).
+ */
+export interface HistoryUpdate {
+  fromV: number;
+  toV: number;
+  meta: {
+    users: Array<HistoryUser | null>;
+    start_ts: number;
+    end_ts: number;
+    origin?: { kind: string };
+  };
+  labels?: HistoryLabel[];
+  pathnames: string[];
+  project_ops: Array<{
+    add?: { pathname: string };
+    remove?: { pathname: string };
+    rename?: { pathname: string; newPathname: string };
+    atV: number;
+  }>;
+}
+
+/**
+ * Segment of a history diff: unchanged (`u`), inserted (`i`) or deleted
+ * (`d`) text, with the author and time of the change for `i`/`d`.
+ */
+export interface HistoryDiffPart {
+  u?: string;
+  i?: string;
+  d?: string;
+  meta?: { users: Array<HistoryUser | null>; start_ts: number; end_ts: number };
+}
+
+export interface HistoryFileChange {
+  pathname: string;
+  operation?: 'added' | 'removed' | 'edited' | 'renamed';
+  newPathname?: string;
 }
 
 export interface Credentials {
@@ -282,9 +516,9 @@ export class OverleafClient {
   }
 
   /**
-   * Get all projects (not archived, not trashed)
+   * Get all projects (not archived, not trashed unless asked for)
    */
-  async listProjects(): Promise<Project[]> {
+  async listProjects(options: ListProjectsOptions = {}): Promise<Project[]> {
     const response = await this.httpRequest(this.projectUrl(), {
       headers: this.getHeaders(),
       expect: 'text'
@@ -344,36 +578,376 @@ export class OverleafClient {
       }
     }
 
+    // Tags live in their own meta tag, each listing its project IDs
+    const tagsByProject = new Map<string, string[]>();
+    try {
+      const tags = JSON.parse($('meta[name="ol-tags"]').attr('content') || '[]');
+      for (const tag of tags) {
+        for (const projectId of tag.project_ids || []) {
+          if (!tagsByProject.has(projectId)) tagsByProject.set(projectId, []);
+          tagsByProject.get(projectId)!.push(tag.name);
+        }
+      }
+    } catch (e) {
+      // No tags
+    }
+
+    // Older pages have no accessLevel; fall back to comparing owner IDs
+    const userId = $('meta[name="ol-user_id"]').attr('content');
+
     // Filter out archived and trashed
     return projectsData
-      .filter((p: any) => !p.archived && !p.trashed)
-      .map((p: any) => ({
-        id: p.id || p._id,
-        name: p.name,
-        lastUpdated: p.lastUpdated,
-        lastUpdatedBy: p.lastUpdatedBy,
-        owner: p.owner,
-        archived: p.archived,
-        trashed: p.trashed
-      }));
+      .filter((p: any) => (options.includeArchived || !p.archived) && (options.includeTrashed || !p.trashed))
+      .map((p: any) => {
+        const id = p.id || p._id;
+        const ownerId = p.owner?.id || p.owner?._id || p.owner_ref;
+        return {
+          id,
+          name: p.name,
+          lastUpdated: p.lastUpdated,
+          lastUpdatedBy: p.lastUpdatedBy || undefined,
+          owner: p.owner,
+          accessLevel: p.accessLevel,
+          ownedByMe: p.accessLevel ? p.accessLevel === 'owner' : (userId && ownerId ? ownerId === userId : undefined),
+          archived: p.archived,
+          trashed: p.trashed,
+          tags: tagsByProject.get(id) ?? []
+        };
+      });
   }
 
   /**
    * Get project by name
    */
-  async getProject(name: string): Promise<Project | undefined> {
-    const projects = await this.listProjects();
+  async getProject(name: string, options: ListProjectsOptions = {}): Promise<Project | undefined> {
+    const projects = await this.listProjects(options);
     return projects.find(p => p.name === name);
   }
 
   /**
    * Get project by ID
    */
-  async getProjectById(id: string): Promise<Project | undefined> {
-    const projects = await this.listProjects();
+  async getProjectById(id: string, options: ListProjectsOptions = {}): Promise<Project | undefined> {
+    const projects = await this.listProjects(options);
     return projects.find(p => p.id === id);
   }
 
+  /**
+   * Create a blank project. Returns the new project ID.
+   */
+  async createProject(name: string, template: 'none' | 'example' = 'none'): Promise<string> {
+    const response = await this.httpRequest(`${this.projectUrl()}/new`, {
+      method: 'POST',
+      headers: this.getHeaders(true),
+      body: JSON.stringify({ projectName: name, template }),
+      expect: 'json'
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to create project: ${response.status}`);
+    }
+
+    this.applySetCookieHeaders(response.headers['set-cookie'] as string[] | undefined);
+
+    const data = response.body as any;
+    if (!data.project_id) {
+      throw new Error(`Failed to create project: ${data.message || 'no project ID returned'}`);
+    }
+    return data.project_id;
+  }
+
+  /**
+   * Create a project from a zip archive. Overleaf names the project after
+   * the uploaded file, so the archive is sent as `<name>.zip`.
+   */
+  async createProjectFromZip(name: string, zip: Buffer): Promise<string> {
+    const formData = new FormData();
+    formData.append('name', `${name}.zip`);
+    formData.append('type', 'application/zip');
+    formData.append('qqfile', new Blob([zip], { type: 'application/zip' }), `${name}.zip`);
+
+    const response = await this.httpRequest(`${this.projectUrl()}/new/upload`, {
+      method: 'POST',
+      headers: {
+        'Cookie': this.getCookieHeader(),
+        'User-Agent': USER_AGENT,
+        'X-Csrf-Token': this.csrf
+      },
+      body: formData as unknown as Buffer,
+      expect: 'text',
+      timeoutMs: 120000
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to upload project: ${response.status} - ${response.body}`);
+    }
+
+    this.applySetCookieHeaders(response.headers['set-cookie'] as string[] | undefined);
+
+    const data = JSON.parse(response.body as string) as any;
+    if (data.success === false || !data.project_id) {
+      throw new Error(`Failed to upload project: ${data.error || 'no project ID returned'}`);
+    }
+    return data.project_id;
+  }
+
+  /**
+   * Copy a project under a new name. Returns the new project ID.
+   */
+  async cloneProject(projectId: string, newName: string): Promise<string> {
+    const response = await this.httpRequest(`${this.projectUrl()}/${projectId}/clone`, {
+      method: 'POST',
+      headers: this.getHeaders(true),
+      body: JSON.stringify({ projectName: newName }),
+      expect: 'json'
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to copy project: ${response.status}`);
+    }
+
+    this.applySetCookieHeaders(response.headers['set-cookie'] as string[] | undefined);
+
+    const data = response.body as { project_id?: string; message?: string } | undefined;
+    if (!data?.project_id) {
+      throw new Error(`Failed to copy project: ${data?.message || 'no project ID returned'}`);
+    }
+    return data.project_id;
+  }
+
+  /**
+   * Send a body-less request to a project lifecycle endpoint
+   */
+  private async projectAction(projectId: string, method: 'POST' | 'DELETE', suffix: string, action: string): Promise<void> {
+    const response = await this.httpRequest(`${this.projectUrl()}/${projectId}${suffix}`, {
+      method,
+      headers: this.getHeaders(),
+      expect: 'text'
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to ${action} project: ${response.status}`);
+    }
+
+    this.applySetCookieHeaders(response.headers['set-cookie'] as string[] | undefined);
+  }
+
+  async archiveProject(projectId: string): Promise<void> {
+    await this.projectAction(projectId, 'POST', '/archive', 'archive');
+  }
+
+  async unarchiveProject(projectId: string): Promise<void> {
+    await this.projectAction(projectId, 'DELETE', '/archive', 'unarchive');
+  }
+
+  async trashProject(projectId: string): Promise<void> {
+    await this.projectAction(projectId, 'POST', '/trash', 'trash');
+  }
+
+  async untrashProject(projectId: string): Promise<void> {
+    await this.projectAction(projectId, 'DELETE', '/trash', 'restore');
+  }
+
+  /**
+   * Delete a project (Overleaf keeps deleted projects recoverable by
+   * support for a limited time only).
+   */
+  async deleteProject(projectId: string): Promise<void> {
+    await this.projectAction(projectId, 'DELETE', '', 'delete');
+  }
+
+  /**
+   * Send a JSON request and return the parsed response body (undefined
+   * for endpoints that only answer 204)
+   */
+  private async jsonRequest(
+    url: string,
+    method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+    body: unknown,
+    action: string
+  ): Promise<any> {
+    const response = await this.httpRequest(url, {
+      method,
+      headers: this.getHeaders(body !== undefined),
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      expect: 'text'
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to ${action}: ${response.status}`);
+    }
+
+    this.applySetCookieHeaders(response.headers['set-cookie'] as string[] | undefined);
+
+    const text = response.body as string;
+    return text ? JSON.parse(text) : undefined;
+  }
+
+  private tagRequest(path: string, method: 'GET' | 'POST' | 'DELETE', body: unknown, action: string): Promise<any> {
+    return this.jsonRequest(`${this.baseUrl}/tag${path}`, method, body, action);
+  }
+
+  private static toTag(data: any): Tag {
+    return {
+      id: data._id || data.id,
+      name: data.name,
+      color: data.color,
+      projectIds: data.project_ids || []
+    };
+  }
+
+  /**
+   * List the dashboard tags of the current user
+   */
+  async listTags(): Promise<Tag[]> {
+    const data = await this.tagRequest('', 'GET', undefined, 'fetch tags');
+    return (data || []).map((t: any) => OverleafClient.toTag(t));
+  }
+
+  async createTag(name: string, color?: string): Promise<Tag> {
+    const data = await this.tagRequest('', 'POST', { name, color }, 'create tag');
+    return OverleafClient.toTag(data);
+  }
+
+  async renameTag(tagId: string, newName: string): Promise<void> {
+    await this.tagRequest(`/${tagId}/rename`, 'POST', { name: newName }, 'rename tag');
+  }
+
+  async deleteTag(tagId: string): Promise<void> {
+    await this.tagRequest(`/${tagId}`, 'DELETE', undefined, 'delete tag');
+  }
+
+  async addProjectsToTag(tagId: string, projectIds: string[]): Promise<void> {
+    await this.tagRequest(`/${tagId}/projects`, 'POST', { projectIds }, 'add projects to tag');
+  }
+
+  async removeProjectsFromTag(tagId: string, projectIds: string[]): Promise<void> {
+    await this.tagRequest(`/${tagId}/projects/remove`, 'POST', { projectIds }, 'remove projects from tag');
+  }
+
+  /**
+   * List the collaborators of a project (the owner is not included)
+   */
+  async getProjectMembers(projectId: string): Promise<ProjectMember[]> {
+    const data = await this.jsonRequest(`${this.projectUrl()}/${projectId}/members`, 'GET', undefined, 'fetch members');
+    return (data?.members || []).map((m: any) => ({
+      id: m._id || m.id,
+      email: m.email,
+      firstName: m.first_name,
+      lastName: m.last_name,
+      privileges: m.privileges
+    }));
+  }
+
+  /**
+   * List pending invitations to a project
+   */
+  async getProjectInvites(projectId: string): Promise<ProjectInvite[]> {
+    const data = await this.jsonRequest(`${this.projectUrl()}/${projectId}/invites`, 'GET', undefined, 'fetch invites');
+    return (data?.invites || []).map((i: any) => OverleafClient.toInvite(i));
+  }
+
+  private static toInvite(data: any): ProjectInvite {
+    return { id: data._id || data.id, email: data.email, privileges: data.privileges };
+  }
+
+  /**
+   * Invite someone by email. Returns the pending invite.
+   */
+  async inviteToProject(projectId: string, email: string, privileges: AccessLevel): Promise<ProjectInvite> {
+    const data = await this.jsonRequest(`${this.projectUrl()}/${projectId}/invite`, 'POST', { email, privileges }, 'send invite');
+    if (data?.error) {
+      throw new Error(`Failed to send invite: ${typeof data.error === 'string' ? data.error : JSON.stringify(data.error)}`);
+    }
+    return OverleafClient.toInvite(data?.invite ?? { email, privileges });
+  }
+
+  async revokeInvite(projectId: string, inviteId: string): Promise<void> {
+    await this.jsonRequest(`${this.projectUrl()}/${projectId}/invite/${inviteId}`, 'DELETE', undefined, 'revoke invite');
+  }
+
+  async setMemberAccess(projectId: string, userId: string, privileges: AccessLevel): Promise<void> {
+    await this.jsonRequest(`${this.projectUrl()}/${projectId}/users/${userId}`, 'PUT', { privilegeLevel: privileges }, 'change access');
+  }
+
+  async removeMember(projectId: string, userId: string): Promise<void> {
+    await this.jsonRequest(`${this.projectUrl()}/${projectId}/users/${userId}`, 'DELETE', undefined, 'remove member');
+  }
+
+  /**
+   * Make an existing collaborator the owner (the current owner becomes
+   * a read-write collaborator)
+   */
+  async transferOwnership(projectId: string, userId: string): Promise<void> {
+    await this.jsonRequest(`${this.projectUrl()}/${projectId}/transfer-ownership`, 'POST', { user_id: userId }, 'transfer ownership');
+  }
+
+  /**
+   * Link sharing state and tokens. Tokens are only visible to the owner;
+   * they are generated the first time link sharing is turned on.
+   */
+  async getLinkSharing(projectId: string): Promise<LinkSharing> {
+    const project = await this.getProjectFromSocket(projectId);
+    // Overleaf spells the field `publicAccesLevel`
+    const level = project?.publicAccesLevel ?? project?.publicAccessLevel;
+    const tokens = await this.jsonRequest(`${this.projectUrl()}/${projectId}/tokens`, 'GET', undefined, 'fetch share tokens');
+    const readOnly = tokens?.readOnly;
+    const readAndWrite = tokens?.readAndWrite;
+    return {
+      enabled: level === 'tokenBased',
+      readOnlyUrl: readOnly ? `${this.baseUrl}/read/${readOnly}` : undefined,
+      readAndWriteUrl: readAndWrite ? `${this.baseUrl}/${readAndWrite}` : undefined
+    };
+  }
+
+  async setLinkSharing(projectId: string, enabled: boolean): Promise<void> {
+    await this.jsonRequest(
+      `${this.projectUrl()}/${projectId}/settings/admin`,
+      'POST',
+      { publicAccessLevel: enabled ? 'tokenBased' : 'private' },
+      'change link sharing'
+    );
+  }
+
+  /**
+   * Read the current project settings. `rootDocPath` is the path of the
+   * main document in the project tree.
+   */
+  async getProjectSettings(projectId: string): Promise<ProjectSettings & { rootDocPath?: string }> {
+    const info = await this.getProjectInfo(projectId);
+
+    const findPath = (folder: FolderEntry, prefix: string): string | undefined => {
+      for (const doc of folder.docs || []) {
+        if (doc._id === info.rootDoc_id) return `${prefix}${doc.name}`;
+      }
+      for (const sub of folder.folders || []) {
+        const found = findPath(sub, `${prefix}${sub.name}/`);
+        if (found) return found;
+      }
+      return undefined;
+    };
+
+    return {
+      name: info.name,
+      compiler: info.compiler,
+      imageName: info.imageName,
+      spellCheckLanguage: info.spellCheckLanguage,
+      rootDocId: info.rootDoc_id || undefined,
+      rootDocPath: info.rootDoc_id && info.rootFolder?.[0] ? findPath(info.rootFolder[0], '') : undefined
+    };
+  }
+
+  /**
+   * Change project settings; only the given fields are sent
+   */
+  async updateProjectSettings(projectId: string, settings: ProjectSettings): Promise<void> {
+    const body: Record<string, string> = {};
+    for (const [key, value] of Object.entries(settings)) {
+      if (value !== undefined) body[key] = value;
+    }
+    await this.jsonRequest(`${this.projectUrl()}/${projectId}/settings`, 'POST', body, 'update project settings');
+  }
+
   /**
    * Get detailed project info including file tree
    */
@@ -469,7 +1043,7 @@ export class OverleafClient {
         });
         if (!pollResponse.ok) return null;
         this.applySetCookieHeaders(pollResponse.headers['set-cookie'] as string[] | undefined);
-        const packets = this.decodeSocketIoPayload(pollResponse.body as string);
+        const packets = decodeSocketIoPayload(pollResponse.body as string);
         for (const packet of packets) {
           if (packet.startsWith('5:::')) {
             try {
@@ -552,20 +1126,31 @@ export class OverleafClient {
   }
 
   /**
-   * Compile project and get PDF
+   * POST a compile request. Without options this is the editor's default
+   * compile: the project's root doc and compiler, normal mode.
    */
-  async compileProject(projectId: string): Promise<{ pdfUrl: string; logs: string[] }> {
-    const response = await this.httpRequest(this.compileUrl(projectId), {
+  private async requestCompile(projectId: string, options: CompileOptions) {
+    return this.httpRequest(this.compileUrl(projectId), {
       method: 'POST',
       headers: this.getHeaders(true),
       body: JSON.stringify({
-        rootDoc_id: null,
-        draft: false,
-        check: 'silent',
-        incrementalCompilesEnabled: true
+        rootDoc_id: options.rootDocId ?? null,
+        draft: options.draft ?? false,
+        check: options.check ?? 'silent',
+        incrementalCompilesEnabled: true,
+        stopOnFirstError: options.stopOnFirstError ?? false,
+        ...(options.compiler ? { compiler: options.compiler } : {})
       }),
-      expect: 'json'
+      expect: 'json',
+      timeoutMs: options.timeoutMs
     });
+  }
+
+  /**
+   * Compile project and get PDF
+   */
+  async compileProject(projectId: string, options: CompileOptions = {}): Promise<{ pdfUrl: string; logs: string[] }> {
+    const response = await this.requestCompile(projectId, options);
 
     if (!response.ok) {
       throw new Error(`Failed to compile project: ${response.status}`);
@@ -593,8 +1178,8 @@ export class OverleafClient {
   /**
    * Download compiled PDF
    */
-  async downloadPdf(projectId: string): Promise<Buffer> {
-    const { pdfUrl } = await this.compileProject(projectId);
+  async downloadPdf(projectId: string, options: CompileOptions = {}): Promise<Buffer> {
+    const { pdfUrl } = await this.compileProject(projectId, options);
     return this.downloadBuffer(pdfUrl);
   }
 
@@ -640,39 +1225,6 @@ export class OverleafClient {
     return prefix + newCounter;
   }
 
-  /**
-   * Decode Socket.IO 0.9 payloads. Frames may be a single packet or \ufffd-length framed packets.
-   */
-  private decodeSocketIoPayload(payload: string): string[] {
-    if (!payload) return [];
-    if (!payload.startsWith('\ufffd')) return [payload];
-
-    const packets: string[] = [];
-    let i = 0;
-
-    while (i < payload.length) {
-      if (payload[i] !== '\ufffd') break;
-      i += 1;
-
-      let len = '';
-      while (i < payload.length && payload[i] !== '\ufffd') {
-        len += payload[i];
-        i += 1;
-      }
-
-      if (i >= payload.length || payload[i] !== '\ufffd') break;
-      i += 1;
-
-      const packetLen = Number.parseInt(len, 10);
-      if (!Number.isFinite(packetLen) || packetLen < 0) break;
-
-      packets.push(payload.slice(i, i + packetLen));
-      i += packetLen;
-    }
-
-    return packets;
-  }
-
   /**
    * Extract root folder ID from a Socket.IO event packet (joinProjectResponse).
    */
@@ -766,7 +1318,7 @@ export class OverleafClient {
         this.applySetCookieHeaders(pollResponse.headers['set-cookie'] as string[] | undefined);
 
         const payload = pollResponse.body as string;
-        const packets = this.decodeSocketIoPayload(payload);
+        const packets = decodeSocketIoPayload(payload);
 
         for (const packet of packets) {
           const rootFolderId = this.extractRootFolderIdFromSocketPacket(packet);
@@ -824,6 +1376,36 @@ export class OverleafClient {
     return null;
   }
 
+  /**
+   * Open a persistent collaboration session for a project (joinDoc,
+   * applyOtUpdate, live events). The caller must disconnect() it.
+   */
+  async openRealtimeSession(projectId: string): Promise<RealtimeSession> {
+    const session = new RealtimeSession({
+      baseUrl: this.baseUrl,
+      request: async (url, options = {}) => {
+        const headers: Record<string, string> = {
+          'Cookie': this.getCookieHeader(),
+          'User-Agent': USER_AGENT
+        };
+        if (options.method === 'POST') {
+          headers['Content-Type'] = 'text/plain;charset=UTF-8';
+        }
+        const response = await this.httpRequest(url, {
+          method: options.method,
+          headers,
+          body: options.body,
+          expect: 'text',
+          timeoutMs: options.timeoutMs
+        });
+        this.applySetCookieHeaders(response.headers['set-cookie'] as string[] | undefined);
+        return { ok: response.ok, status: response.status, body: response.body as string };
+      }
+    }, projectId);
+    await session.connect();
+    return session;
+  }
+
   /**
    * Get full folder tree for a project via Socket.IO.
    * Returns a map of folder path -> folder ID, e.g. { '': rootId, 'figures': figuresId }
@@ -866,7 +1448,7 @@ export class OverleafClient {
         this.applySetCookieHeaders(pollResponse.headers['set-cookie'] as string[] | undefined);
 
         const payload = pollResponse.body as string;
-        const packets = this.decodeSocketIoPayload(payload);
+        const packets = decodeSocketIoPayload(payload);
 
         for (const packet of packets) {
           const folderTree = this.extractFolderTreeFromSocketPacket(packet);
@@ -962,6 +1544,35 @@ export class OverleafClient {
     return folderTree[folderPath];
   }
 
+  /**
+   * Create a folder by path. With `parents`, missing parent folders are
+   * created and an existing folder is not an error (like `mkdir -p`).
+   * Returns the folder ID
+   */
+  async createFolderByPath(projectId: string, path: string, options: { parents?: boolean } = {}): Promise<string> {
+    const target = path.replace(/^\.?\/+|\/+$/g, '');
+    if (!target) throw new Error('Folder path is empty');
+    const entries = await this.getTreeEntries(projectId);
+    const byPath = new Map(entries.map((e) => [e.path, e]));
+    const segments = target.split('/');
+
+    for (let i = 1; i <= segments.length; i++) {
+      const prefix = segments.slice(0, i).join('/');
+      const existing = byPath.get(prefix);
+      if (existing && existing.type !== 'folder') {
+        throw new Error(`Not a folder: ${prefix}`);
+      }
+      if (!existing && i < segments.length && !options.parents) {
+        throw new Error(`No such folder: ${prefix} (use --parents to create it)`);
+      }
+      if (existing && i === segments.length && !options.parents) {
+        throw new Error(`Already exists: ${target}`);
+      }
+    }
+
+    return this.resolveFolderId(projectId, OverleafClient.folderIds(entries), target);
+  }
+
   /**
    * Get root folder ID for a project (tries multiple methods)
    */
@@ -1314,6 +1925,29 @@ export class OverleafClient {
     this.applySetCookieHeaders(response.headers['set-cookie'] as string[] | undefined);
   }
 
+  /**
+   * Move a file, doc, or folder into another folder
+   */
+  async moveEntity(
+    projectId: string,
+    entityId: string,
+    entityType: 'doc' | 'file' | 'folder',
+    folderId: string
+  ): Promise<void> {
+    const response = await this.httpRequest(`${this.baseUrl}/project/${projectId}/${entityType}/${entityId}/move`, {
+      method: 'POST',
+      headers: this.getHeaders(true),
+      body: JSON.stringify({ folder_id: folderId }),
+      expect: 'text'
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to move entity: ${response.status}`);
+    }
+
+    this.applySetCookieHeaders(response.headers['set-cookie'] as string[] | undefined);
+  }
+
   /**
    * Delete a file by path
    */
@@ -1336,6 +1970,145 @@ export class OverleafClient {
     await this.renameEntity(projectId, entity.id, entity.type, newName);
   }
 
+  /**
+   * Every doc, file and folder of a project with its path and parent
+   * folder, in tree order (a folder before its contents)
+   */
+  async getTreeEntries(projectId: string): Promise<TreeEntry[]> {
+    const projectInfo = await this.getProjectInfo(projectId);
+    const root = projectInfo.rootFolder?.[0];
+    if (!root) {
+      throw new Error('Could not read the project file tree');
+    }
+
+    const entries: TreeEntry[] = [{ id: root._id, type: 'folder', name: '', path: '' }];
+    const walk = (folder: FolderEntry, prefix: string) => {
+      const parent = { parentId: folder._id, parentPath: prefix.replace(/\/$/, '') };
+      for (const doc of folder.docs || []) entries.push({ id: doc._id, type: 'doc', name: doc.name, path: prefix + doc.name, ...parent });
+      for (const file of folder.fileRefs || []) {
+        entries.push({ id: file._id, type: 'file', name: file.name, path: prefix + file.name, created: file.created, ...parent });
+      }
+      for (const sub of folder.folders || []) {
+        entries.push({ id: sub._id, type: 'folder', name: sub.name, path: prefix + sub.name, ...parent });
+        walk(sub, `${prefix}${sub.name}/`);
+      }
+    };
+    walk(root, '');
+    return entries;
+  }
+
+  /** Folder path -> ID map as used by resolveFolderId */
+  private static folderIds(entries: TreeEntry[]): Record<string, string> {
+    return Object.fromEntries(entries.filter((e) => e.type === 'folder').map((e) => [e.path, e.id]));
+  }
+
+  /**
+   * Move a file or folder to another path, creating missing folders and
+   * renaming it when the name changes. `toPath` is read like `mv` does:
+   *
+   *   - an existing folder, or a path ending in `/`: move into it
+   *   - a bare name (no `/`): rename in place
+   *   - any other path: move to its folder under its name
+   *
+   * `fromPath` must be the full path of the source. A leading `/` refers to
+   * the project root. If a step fails, the source is put back and folders
+   * created for the move are removed. Returns the new path.
+   */
+  async moveByPath(projectId: string, fromPath: string, toPath: string): Promise<string> {
+    const entries = await this.getTreeEntries(projectId);
+    const source = fromPath.replace(/^\.?\/+|\/+$/g, '');
+    const entity = entries.find((e) => e.path === source && e.path !== '');
+    if (!entity || entity.parentPath === undefined || !entity.parentId) {
+      throw new Error(`File not found: ${fromPath}`);
+    }
+
+    const target = toPath.replace(/^\.?\/+/, '');
+    const targetPath = target.replace(/\/+$/, '');
+    const existing = entries.find((e) => e.path === targetPath);
+    let folderPath: string;
+    let name: string;
+    if (existing?.type === 'folder' || target !== targetPath || targetPath === '') {
+      folderPath = targetPath;
+      name = entity.name;
+    } else if (!toPath.includes('/')) {
+      folderPath = entity.parentPath;
+      name = targetPath;
+    } else {
+      const slash = targetPath.lastIndexOf('/');
+      folderPath = slash === -1 ? '' : targetPath.slice(0, slash);
+      name = targetPath.slice(slash + 1);
+    }
+    const newPath = folderPath ? `${folderPath}/${name}` : name;
+
+    if (newPath === entity.path) {
+      throw new Error(`Source and destination are the same: ${entity.path}`);
+    }
+    if (entity.type === 'folder' && (folderPath === entity.path || folderPath.startsWith(`${entity.path}/`))) {
+      throw new Error(`Cannot move ${entity.path} into itself`);
+    }
+    const taken = (path: string) => entries.some((e) => e.path === path);
+    if (taken(newPath)) {
+      throw new Error(`Already exists: ${newPath}`);
+    }
+    const blocking = entries.find((e) => e.type !== 'folder' && (folderPath === e.path || folderPath.startsWith(`${e.path}/`)));
+    if (blocking) {
+      throw new Error(`Not a folder: ${blocking.path}`);
+    }
+
+    // Names are unique per folder: pick an order in which neither step
+    // collides, or go through a name that is free in both folders
+    const inFolder = (folder: string, entry: string) => taken(folder ? `${folder}/${entry}` : entry);
+    const moving = folderPath !== entity.parentPath;
+    const renaming = name !== entity.name;
+    let steps: Array<{ move: true } | { rename: string }>;
+    if (!moving || !renaming) {
+      steps = moving ? [{ move: true }] : [{ rename: name }];
+    } else if (!inFolder(folderPath, entity.name)) {
+      steps = [{ move: true }, { rename: name }];
+    } else if (!inFolder(entity.parentPath, name)) {
+      steps = [{ rename: name }, { move: true }];
+    } else {
+      let temporary = `${entity.name}.olcli-mv`;
+      for (let i = 2; inFolder(entity.parentPath, temporary) || inFolder(folderPath, temporary); i++) {
+        temporary = `${entity.name}.olcli-mv${i}`;
+      }
+      steps = [{ rename: temporary }, { move: true }, { rename: name }];
+    }
+
+    // Topmost folder the move creates, removed again if the move fails
+    const folders = OverleafClient.folderIds(entries);
+    const segments = folderPath ? folderPath.split('/') : [];
+    const created = segments.map((_, i) => segments.slice(0, i + 1).join('/')).find((path) => !folders[path]);
+    const folderId = await this.resolveFolderId(projectId, folders, folderPath);
+
+    let moved = false;
+    let currentName = entity.name;
+    try {
+      for (const step of steps) {
+        if ('move' in step) {
+          await this.moveEntity(projectId, entity.id, entity.type, folderId);
+          moved = true;
+        } else {
+          await this.renameEntity(projectId, entity.id, entity.type, step.rename);
+          currentName = step.rename;
+        }
+      }
+    } catch (error) {
+      // Put the entity back where it was, as far as that still works
+      if (moved) {
+        moved = !(await this.moveEntity(projectId, entity.id, entity.type, entity.parentId).then(() => true, () => false));
+      }
+      if (!moved && currentName !== entity.name) {
+        await this.renameEntity(projectId, entity.id, entity.type, entity.name).catch(() => { /* best effort */ });
+      }
+      if (!moved && created && folders[created]) {
+        await this.deleteEntity(projectId, folders[created], 'folder').catch(() => { /* best effort */ });
+      }
+      throw error;
+    }
+    return newPath;
+  }
+
   /**
    * Download a file by path (uses zip as fallback if ID not available)
    */
@@ -1378,24 +2151,25 @@ export class OverleafClient {
   }
 
   /**
-   * Compile project and get all output files
+   * Compile project and get all output files. With `withLog`, output.log is
+   * downloaded too and returned as text.
    */
-  async compileWithOutputs(projectId: string): Promise<{
+  async compileWithOutputs(
+    projectId: string,
+    options: CompileOptions = {},
+    { withLog = false }: { withLog?: boolean } = {}
+  ): Promise<{
     status: 'success' | 'failure' | 'error';
     pdfUrl?: string;
     outputFiles: { path: string; type: string; url: string }[];
+    /** Build the output files belong to */
+    buildId?: string;
+    /** Compile server that holds the build (for SyncTeX lookups) */
+    clsiServerId?: string;
+    /** Content of output.log, when requested and the compile produced one */
+    log?: string;
   }> {
-    const response = await this.httpRequest(this.compileUrl(projectId), {
-      method: 'POST',
-      headers: this.getHeaders(true),
-      body: JSON.stringify({
-        rootDoc_id: null,
-        draft: false,
-        check: 'silent',
-        incrementalCompilesEnabled: true
-      }),
-      expect: 'json'
-    });
+    const response = await this.requestCompile(projectId, options);
 
     if (!response.ok) {
       throw new Error(`Failed to compile project: ${response.status}`);
@@ -1405,15 +2179,30 @@ export class OverleafClient {
 
     const data = response.body as any;
     const pdfFile = data.outputFiles?.find((f: any) => f.type === 'pdf');
+    const outputFiles = (data.outputFiles || []).map((f: any) => ({
+      path: f.path,
+      type: f.type,
+      url: `${this.baseUrl}${f.url}`
+    }));
+
+    // The log explains failures; a missing or unreadable log is not fatal
+    let log: string | undefined;
+    const logFile = withLog ? outputFiles.find((f: { path: string }) => f.path === 'output.log') : undefined;
+    if (logFile) {
+      try {
+        log = (await this.downloadBuffer(logFile.url)).toString('utf-8');
+      } catch {
+        log = undefined;
+      }
+    }
 
     return {
       status: data.status,
       pdfUrl: pdfFile ? `${this.baseUrl}${pdfFile.url}` : undefined,
-      outputFiles: (data.outputFiles || []).map((f: any) => ({
-        path: f.path,
-        type: f.type,
-        url: `${this.baseUrl}${f.url}`
-      }))
+      outputFiles,
+      buildId: data.outputFiles?.[0]?.build,
+      clsiServerId: data.clsiServerId,
+      log
     };
   }
 
@@ -1423,4 +2212,360 @@ export class OverleafClient {
   async downloadOutputFile(url: string): Promise<Buffer> {
     return this.downloadBuffer(url);
   }
+
+  private syncTexUrl(projectId: string, kind: 'code' | 'pdf', params: Record<string, string>, build: SyncTexBuild): string {
+    const query = new URLSearchParams(params);
+    if (build.buildId) query.set('buildId', build.buildId);
+    if (build.clsiServerId) query.set('clsiserverid', build.clsiServerId);
+    return `${this.baseUrl}/project/${projectId}/sync/${kind}?${query}`;
+  }
+
+  /**
+   * SyncTeX forward search: where a source line ends up in the PDF of a build
+   */
+  async syncFromCode(
+    projectId: string,
+    position: { file: string; line: number; column?: number },
+    build: SyncTexBuild = {}
+  ): Promise<PdfPosition[]> {
+    const url = this.syncTexUrl(projectId, 'code', {
+      file: position.file,
+      line: String(position.line),
+      column: String(position.column ?? 0)
+    }, build);
+    const data = await this.jsonRequest(url, 'GET', undefined, 'run SyncTeX forward search');
+    return (data?.pdf || []).map((p: any) => ({
+      page: Number(p.page),
+      h: Number(p.h),
+      v: Number(p.v),
+      width: Number(p.width),
+      height: Number(p.height)
+    }));
+  }
+
+  /**
+   * SyncTeX inverse search: the source position of a point in the PDF of a build
+   */
+  async syncFromPdf(
+    projectId: string,
+    position: { page: number; h: number; v: number },
+    build: SyncTexBuild = {}
+  ): Promise<CodePosition[]> {
+    const url = this.syncTexUrl(projectId, 'pdf', {
+      page: String(position.page),
+      h: position.h.toFixed(2),
+      v: position.v.toFixed(2)
+    }, build);
+    const data = await this.jsonRequest(url, 'GET', undefined, 'run SyncTeX inverse search');
+    return (data?.code || []).map((c: any) => ({
+      file: String(c.file).replace(/^\/compile\//, '').replace(/^(\.\/)+/, ''),
+      line: Number(c.line),
+      column: Number(c.column)
+    }));
+  }
+
+  /**
+   * Get project chat messages, newest first. Pass the timestamp of the
+   * oldest message as `before` to fetch the page before it.
+   */
+  async getChatMessages(projectId: string, options: { limit?: number; before?: number } = {}): Promise<ChatMessage[]> {
+    const query = new URLSearchParams({ limit: String(options.limit ?? 50) });
+    if (options.before !== undefined) query.set('before', String(options.before));
+    const data = await this.jsonRequest(`${this.projectUrl()}/${projectId}/messages?${query}`, 'GET', undefined, 'fetch chat messages');
+    return (data || []).map((m: any) => OverleafClient.toMessage(m));
+  }
+
+  async sendChatMessage(projectId: string, content: string): Promise<void> {
+    await this.jsonRequest(`${this.projectUrl()}/${projectId}/messages`, 'POST', { content }, 'send chat message');
+  }
+
+  /**
+   * Count words with texcount on the compile server, for a document and the
+   * files it includes (the main document when no file is given). The
+   * endpoint returns totals only; texcount's per-section subcounts are
+   * dropped by the server.
+   */
+  async getWordCount(projectId: string, file?: string): Promise<WordCount> {
+    const query = file ? `?file=${encodeURIComponent(file)}` : '';
+    const data = await this.jsonRequest(`${this.baseUrl}/project/${projectId}/wordcount${query}`, 'GET', undefined, 'count words');
+    const tc = data?.texcount || {};
+    return {
+      encoding: tc.encode || undefined,
+      textWords: Number(tc.textWords) || 0,
+      headWords: Number(tc.headWords) || 0,
+      outside: Number(tc.outside) || 0,
+      headers: Number(tc.headers) || 0,
+      elements: Number(tc.elements) || 0,
+      mathInline: Number(tc.mathInline) || 0,
+      mathDisplay: Number(tc.mathDisplay) || 0,
+      errors: Number(tc.errors) || 0,
+      messages: String(tc.messages || '').split('\n').map((m: string) => m.trim()).filter(Boolean)
+    };
+  }
+
+  private static toReviewUser(data: any): ProjectUser | undefined {
+    if (!data) return undefined;
+    return { id: data.id || data._id, email: data.email, firstName: data.first_name, lastName: data.last_name };
+  }
+
+  /**
+   * Convert a chat service message (HTTP or `new-chat-message` event)
+   */
+  static toMessage(data: any): CommentMessage {
+    return {
+      id: data.id || data._id,
+      content: data.content,
+      timestamp: Number(data.timestamp),
+      user: OverleafClient.toReviewUser(data.user)
+    };
+  }
+
+  /**
+   * List the review comment threads of a project, including resolved ones
+   */
+  async getCommentThreads(projectId: string): Promise<CommentThread[]> {
+    const data = await this.jsonRequest(`${this.projectUrl()}/${projectId}/threads`, 'GET', undefined, 'fetch comment threads');
+    return Object.entries(data || {}).map(([id, thread]: [string, any]) => ({
+      id,
+      messages: (thread.messages || []).map((m: any) => OverleafClient.toMessage(m)),
+      resolved: !!thread.resolved,
+      resolvedAt: thread.resolved_at,
+      resolvedBy: OverleafClient.toReviewUser(thread.resolved_by_user)
+    }));
+  }
+
+  /**
+   * Get the review ranges (comment anchors and tracked changes) of every
+   * doc that has any
+   */
+  async getDocRanges(projectId: string): Promise<DocRanges[]> {
+    const data = await this.jsonRequest(`${this.projectUrl()}/${projectId}/ranges`, 'GET', undefined, 'fetch review ranges');
+    return (data || []).map((doc: any) => ({
+      docId: doc.id || doc._id,
+      comments: (doc.ranges?.comments || []).map((c: any) => ({
+        threadId: c.op?.t ?? c.id,
+        position: Number(c.op?.p),
+        text: c.op?.c ?? ''
+      })),
+      changes: (doc.ranges?.changes || []).map((c: any) => ({
+        id: c.id,
+        type: c.op?.d !== undefined ? 'delete' : 'insert',
+        position: Number(c.op?.p),
+        text: c.op?.d ?? c.op?.i ?? '',
+        userId: c.metadata?.user_id,
+        timestamp: c.metadata?.ts
+      }))
+    }));
+  }
+
+  /**
+   * List the users who made tracked changes in a project
+   */
+  async getTrackChangesUsers(projectId: string): Promise<ProjectUser[]> {
+    const data = await this.jsonRequest(`${this.projectUrl()}/${projectId}/changes/users`, 'GET', undefined, 'fetch tracked change authors');
+    return (data || []).map((u: any) => OverleafClient.toReviewUser(u)).filter(Boolean);
+  }
+
+  /**
+   * Accept tracked changes of a doc: insertions stay, deletions are final
+   */
+  async acceptChanges(projectId: string, docId: string, changeIds: string[]): Promise<void> {
+    await this.jsonRequest(`${this.projectUrl()}/${projectId}/doc/${docId}/changes/accept`, 'POST', { change_ids: changeIds }, 'accept changes');
+  }
+
+  /**
+   * Post a message to a comment thread (a reply, or the first message of a
+   * new thread)
+   */
+  async addCommentMessage(projectId: string, threadId: string, content: string): Promise<void> {
+    await this.jsonRequest(`${this.projectUrl()}/${projectId}/thread/${threadId}/messages`, 'POST', { content }, 'post comment');
+  }
+
+  async resolveThread(projectId: string, docId: string, threadId: string): Promise<void> {
+    await this.jsonRequest(`${this.projectUrl()}/${projectId}/doc/${docId}/thread/${threadId}/resolve`, 'POST', {}, 'resolve comment');
+  }
+
+  async reopenThread(projectId: string, docId: string, threadId: string): Promise<void> {
+    await this.jsonRequest(`${this.projectUrl()}/${projectId}/doc/${docId}/thread/${threadId}/reopen`, 'POST', {}, 'reopen comment');
+  }
+
+  /**
+   * Delete a comment thread with all its messages and its anchor in the doc
+   */
+  async deleteThread(projectId: string, docId: string, threadId: string): Promise<void> {
+    await this.jsonRequest(`${this.projectUrl()}/${projectId}/doc/${docId}/thread/${threadId}`, 'DELETE', undefined, 'delete comment');
+  }
+
+  /**
+   * Get one page of project history, newest first. Pass the returned
+   * `nextBeforeTimestamp` as `before` to fetch the next (older) page.
+   */
+  async getHistoryUpdates(projectId: string, before?: number, minCount = 10): Promise<{
+    updates: HistoryUpdate[];
+    nextBeforeTimestamp?: number;
+  }> {
+    let url = `${this.baseUrl}/project/${projectId}/updates?min_count=${minCount}`;
+    if (before !== undefined) url += `&before=${before}`;
+
+    const response = await this.httpRequest(url, {
+      headers: this.getHeaders(),
+      expect: 'json'
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to get project history: ${response.status}`);
+    }
+
+    this.applySetCookieHeaders(response.headers['set-cookie'] as string[] | undefined);
+
+    const data = response.body as any;
+    return {
+      updates: data.updates || [],
+      nextBeforeTimestamp: data.nextBeforeTimestamp ?? undefined
+    };
+  }
+
+  /**
+   * Get project history, newest first, following pagination until `limit`
+   * updates were collected (or the beginning of history).
+   */
+  async listHistoryUpdates(projectId: string, limit = Infinity): Promise<HistoryUpdate[]> {
+    const updates: HistoryUpdate[] = [];
+    let before: number | undefined;
+    while (updates.length < limit) {
+      const page = await this.getHistoryUpdates(projectId, before, Math.min(limit - updates.length, 50));
+      updates.push(...page.updates);
+      if (page.nextBeforeTimestamp === undefined || page.updates.length === 0) break;
+      before = page.nextBeforeTimestamp;
+    }
+    return updates.slice(0, limit);
+  }
+
+  /**
+   * Find the newest history update matching `match`, paging back through
+   * at most `limit` updates.
+   */
+  async findHistoryUpdate(
+    projectId: string,
+    match: (update: HistoryUpdate) => boolean,
+    limit = 500
+  ): Promise<HistoryUpdate | undefined> {
+    let before: number | undefined;
+    let seen = 0;
+    while (seen < limit) {
+      const page = await this.getHistoryUpdates(projectId, before, Math.min(limit - seen, 50));
+      const found = page.updates.find(match);
+      if (found) return found;
+      seen += page.updates.length;
+      if (page.nextBeforeTimestamp === undefined || page.updates.length === 0) break;
+      before = page.nextBeforeTimestamp;
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the diff of one file between two history versions.
+   */
+  async getHistoryDiff(projectId: string, pathname: string, from: number, to: number): Promise<{
+    binary: boolean;
+    parts: HistoryDiffPart[];
+  }> {
+    const params = new URLSearchParams({ pathname, from: String(from), to: String(to) });
+    const response = await this.httpRequest(`${this.baseUrl}/project/${projectId}/diff?${params}`, {
+      headers: this.getHeaders(),
+      expect: 'json'
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to get history diff: ${response.status}`);
+    }
+
+    this.applySetCookieHeaders(response.headers['set-cookie'] as string[] | undefined);
+
+    const diff = (response.body as any).diff;
+    if (diff && !Array.isArray(diff) && diff.binary) {
+      return { binary: true, parts: [] };
+    }
+    return { binary: false, parts: diff || [] };
+  }
+
+  /**
+   * List the files added, removed, edited or renamed between two versions.
+   */
+  async getHistoryFileTreeDiff(projectId: string, from: number, to: number): Promise<HistoryFileChange[]> {
+    const response = await this.httpRequest(`${this.baseUrl}/project/${projectId}/filetree/diff?from=${from}&to=${to}`, {
+      headers: this.getHeaders(),
+      expect: 'json'
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to get history file changes: ${response.status}`);
+    }
+
+    this.applySetCookieHeaders(response.headers['set-cookie'] as string[] | undefined);
+
+    return (response.body as any).diff || [];
+  }
+
+  /**
+   * Download the whole project as a zip, as it was at a history version.
+   */
+  async downloadProjectVersion(projectId: string, version: number): Promise<Buffer> {
+    return this.downloadBuffer(`${this.baseUrl}/project/${projectId}/version/${version}/zip`);
+  }
+
+  /**
+   * Get the content of a file as it was at a history version.
+   */
+  async getFileAtVersion(projectId: string, version: number, pathname: string): Promise<Buffer> {
+    const diff = await this.getHistoryDiff(projectId, pathname, version, version);
+    if (!diff.binary) {
+      return Buffer.from(diff.parts.map((p) => p.u ?? p.i ?? '').join(''), 'utf-8');
+    }
+
+    // Binary files have no text diff: take them from the version archive
+    const AdmZip = (await import('adm-zip')).default;
+    const zip = new AdmZip(await this.downloadProjectVersion(projectId, version));
+    const entry = zip.getEntry(pathname.replace(/^\//, ''));
+    if (!entry) {
+      throw new Error(`File not found at version ${version}: ${pathname}`);
+    }
+    return entry.getData();
+  }
+
+  /**
+   * Restore a file to its content at a history version. The restored file
+   * becomes a new change on top of the current project.
+   */
+  async restoreFile(projectId: string, version: number, pathname: string): Promise<{ type?: string; id?: string }> {
+    const body = JSON.stringify({ version, pathname });
+    let response = await this.httpRequest(`${this.baseUrl}/project/${projectId}/restore_file`, {
+      method: 'POST',
+      headers: this.getHeaders(true),
+      body,
+      expect: 'text'
+    });
+
+    // Newer Overleaf versions renamed the endpoint
+    if (response.status === 404) {
+      response = await this.httpRequest(`${this.baseUrl}/project/${projectId}/revert_file`, {
+        method: 'POST',
+        headers: this.getHeaders(true),
+        body,
+        expect: 'text'
+      });
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed to restore file: ${response.status}`);
+    }
+
+    this.applySetCookieHeaders(response.headers['set-cookie'] as string[] | undefined);
+
+    try {
+      return JSON.parse(response.body as string);
+    } catch {
+      return {};
+    }
+  }
 }
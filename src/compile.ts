@@ -0,0 +1,85 @@
+/**
+ * Compile options for olcli
+ *
+ * `compile`, `pdf`, `output` and `watch --compile` accept the same flags.
+ * Defaults can live in `.olcli.json` under `compile`, e.g.
+ *
+ *   "compile": { "main": "slides/main.tex", "compiler": "xelatex", "timeout": 300 }
+ *
+ * Command-line flags win over the defaults; anything left unset falls back
+ * to the project's own settings on Overleaf.
+ */
+
+import type { CompileOptions, Compiler, OverleafClient } from './client.js';
+
+export const COMPILERS: readonly Compiler[] = ['pdflatex', 'xelatex', 'lualatex', 'latex'];
+export const CHECK_MODES: ReadonlyArray<NonNullable<CompileOptions['check']>> = ['validate', 'error', 'silent'];
+
+/**
+ * Compile settings as written in `.olcli.json` and as parsed from flags.
+ */
+export interface CompileSettings {
+  /** Path of the root document, e.g. `thesis.tex` or `slides/main.tex`. */
+  main?: string;
+  compiler?: string;
+  draft?: boolean;
+  stopOnFirstError?: boolean;
+  check?: string;
+  /** Seconds to wait for the compile response. */
+  timeout?: number;
+}
+
+/**
+ * Merge flags over defaults, validate the result and resolve `main` to a
+ * doc id through the project tree.
+ */
+export async function resolveCompileOptions(
+  client: OverleafClient,
+  projectId: string,
+  flags: CompileSettings,
+  defaults: CompileSettings = {}
+): Promise<CompileOptions> {
+  const pick = <K extends keyof CompileSettings>(key: K): CompileSettings[K] => flags[key] ?? defaults[key];
+  const options: CompileOptions = {};
+
+  const compiler = pick('compiler');
+  if (compiler !== undefined) {
+    if (!COMPILERS.includes(compiler as Compiler)) {
+      throw new Error(`Invalid compiler: ${compiler} (expected ${COMPILERS.join(', ')})`);
+    }
+    options.compiler = compiler as Compiler;
+  }
+
+  const check = pick('check');
+  if (check !== undefined) {
+    if (!CHECK_MODES.includes(check as NonNullable<CompileOptions['check']>)) {
+      throw new Error(`Invalid check mode: ${check} (expected ${CHECK_MODES.join(', ')})`);
+    }
+    options.check = check as CompileOptions['check'];
+  }
+
+  const timeout = pick('timeout');
+  if (timeout !== undefined) {
+    if (!Number.isFinite(timeout) || timeout <= 0) {
+      throw new Error(`Invalid timeout: ${timeout} (expected seconds > 0)`);
+    }
+    options.timeoutMs = timeout * 1000;
+  }
+
+  if (pick('draft')) options.draft = true;
+  if (pick('stopOnFirstError')) options.stopOnFirstError = true;
+
+  const main = pick('main');
+  if (main) {
+    const entity = await client.findEntityByPath(projectId, main);
+    if (!entity) {
+      throw new Error(`Main document not found: ${main}`);
+    }
+    if (entity.type !== 'doc') {
+      throw new Error(`Main document is not an editable doc: ${main}`);
+    }
+    options.rootDocId = entity.id;
+  }
+
+  return options;
+}
@@ -7,12 +7,28 @@ import { existsSync, readFileSync, writeFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { homedir } from 'node:os';
 
+/**
+ * Output files of the last compile of a project, for `output --since-last`
+ * and `synctex`
+ */
+export interface CachedBuild {
+  buildId?: string;
+  clsiServerId?: string;
+  status: string;
+  outputFiles: { path: string; type: string; url: string }[];
+  /** Project lastUpdated when the compile was started */
+  projectLastUpdated: string;
+  /** Compile options the build was made with (JSON) */
+  options: string;
+}
+
 interface OlcliConfig {
   sessionCookie?: string;
   csrf?: string;
   lastProject?: string;
   baseUrl?: string;
   sessionCookieName?: string;
+  lastBuilds?: Record<string, CachedBuild>;
 }
 
 const config = new Conf<OlcliConfig>({
@@ -22,7 +38,8 @@ const config = new Conf<OlcliConfig>({
     csrf: { type: 'string' },
     lastProject: { type: 'string' },
     baseUrl: { type: 'string' },
-    sessionCookieName: { type: 'string' }
+    sessionCookieName: { type: 'string' },
+    lastBuilds: { type: 'object' }
   }
 });
 
@@ -92,6 +109,14 @@ export function setLastProject(projectId: string): void {
   config.set('lastProject', projectId);
 }
 
+export function getLastBuild(projectId: string): CachedBuild | undefined {
+  return config.get('lastBuilds')?.[projectId];
+}
+
+export function setLastBuild(projectId: string, build: CachedBuild): void {
+  config.set('lastBuilds', { ...config.get('lastBuilds'), [projectId]: build });
+}
+
 export function clearConfig(): void {
   config.clear();
 }
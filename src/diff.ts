@@ -0,0 +1,296 @@
+/**
+ * Line diffing primitives for olcli
+ *
+ * Implements Myers' O(ND) difference algorithm in its linear-space
+ * ("middle snake") form, so that diffing two large LaTeX sources never
+ * allocates more than O(N + M) memory.
+ *
+ * The output is expressed as hunks: contiguous ranges of `a` that were
+ * replaced by contiguous ranges of `b`. Pure insertions have an empty `a`
+ * range, pure deletions an empty `b` range.
+ */
+
+/**
+ * A single changed region between two sequences.
+ * Ranges are half-open: [aStart, aEnd) in `a` became [bStart, bEnd) in `b`.
+ */
+export interface Hunk {
+  aStart: number;
+  aEnd: number;
+  bStart: number;
+  bEnd: number;
+}
+
+/**
+ * Split text into lines for diffing. Line terminators are kept out of the
+ * elements, so `join('\n')` round-trips the original text exactly
+ * (a trailing newline shows up as a final empty element).
+ */
+export function splitLines(text: string): string[] {
+  return text.split('\n');
+}
+
+/**
+ * Map every distinct element to a small integer so the inner diff loops
+ * compare numbers instead of strings.
+ */
+function intern(a: readonly string[], b: readonly string[]): { a: Int32Array; b: Int32Array } {
+  const ids = new Map<string, number>();
+  const toIds = (seq: readonly string[]): Int32Array => {
+    const out = new Int32Array(seq.length);
+    for (let i = 0; i < seq.length; i++) {
+      let id = ids.get(seq[i]);
+      if (id === undefined) {
+        id = ids.size;
+        ids.set(seq[i], id);
+      }
+      out[i] = id;
+    }
+    return out;
+  };
+  return { a: toIds(a), b: toIds(b) };
+}
+
+/**
+ * Compute the longest common subsequence of `a` and `b` as a list of
+ * matched index pairs [i, j] (a[i] === b[j]), in ascending order.
+ */
+export function matchSequences(a: readonly string[], b: readonly string[]): Array<[number, number]> {
+  const seq = intern(a, b);
+  const matches: Array<[number, number]> = [];
+  const max = a.length + b.length + 2;
+  const vf = new Int32Array(2 * max + 3);
+  const vb = new Int32Array(2 * max + 3);
+
+  const findMiddleSnake = (
+    aLo: number, aHi: number, bLo: number, bHi: number
+  ): { x0: number; y0: number; x1: number; y1: number } => {
+    const n = aHi - aLo;
+    const m = bHi - bLo;
+    const delta = n - m;
+    const odd = (delta & 1) !== 0;
+    const limit = Math.ceil((n + m) / 2);
+    const off = limit + 1;
+    vf[off + 1] = 0;
+    vb[off + 1] = 0;
+
+    for (let d = 0; d <= limit; d++) {
+      // Forward search
+      for (let k = -d; k <= d; k += 2) {
+        let x = (k === -d || (k !== d && vf[off + k - 1] < vf[off + k + 1]))
+          ? vf[off + k + 1]
+          : vf[off + k - 1] + 1;
+        let y = x - k;
+        const x0 = x;
+        const y0 = y;
+        while (x < n && y < m && seq.a[aLo + x] === seq.b[bLo + y]) {
+          x++;
+          y++;
+        }
+        vf[off + k] = x;
+        const c = delta - k;
+        if (odd && c >= -(d - 1) && c <= d - 1 && x + vb[off + c] >= n) {
+          return { x0, y0, x1: x, y1: y };
+        }
+      }
+
+      // Backward search (on the reversed sequences)
+      for (let c = -d; c <= d; c += 2) {
+        let x = (c === -d || (c !== d && vb[off + c - 1] < vb[off + c + 1]))
+          ? vb[off + c + 1]
+          : vb[off + c - 1] + 1;
+        let y = x - c;
+        const x0 = x;
+        const y0 = y;
+        while (x < n && y < m && seq.a[aHi - 1 - x] === seq.b[bHi - 1 - y]) {
+          x++;
+          y++;
+        }
+        vb[off + c] = x;
+        const k = delta - c;
+        if (!odd && k >= -d && k <= d && vf[off + k] + x >= n) {
+          return { x0: n - x, y0: m - y, x1: n - x0, y1: m - y0 };
+        }
+      }
+    }
+
+    // Unreachable for well-formed input: the snakes always meet by `limit`.
+    throw new Error('diff: failed to find middle snake');
+  };
+
+  const walk = (aLo: number, aHi: number, bLo: number, bHi: number): void => {
+    // Strip common prefix
+    const head: Array<[number, number]> = [];
+    while (aLo < aHi && bLo < bHi && seq.a[aLo] === seq.b[bLo]) {
+      head.push([aLo, bLo]);
+      aLo++;
+      bLo++;
+    }
+    // Strip common suffix
+    const tail: Array<[number, number]> = [];
+    while (aLo < aHi && bLo < bHi && seq.a[aHi - 1] === seq.b[bHi - 1]) {
+      aHi--;
+      bHi--;
+      tail.push([aHi, bHi]);
+    }
+
+    matches.push(...head);
+    if (aLo < aHi && bLo < bHi) {
+      const snake = findMiddleSnake(aLo, aHi, bLo, bHi);
+      walk(aLo, aLo + snake.x0, bLo, bLo + snake.y0);
+      for (let t = 0; t < snake.x1 - snake.x0; t++) {
+        matches.push([aLo + snake.x0 + t, bLo + snake.y0 + t]);
+      }
+      walk(aLo + snake.x1, aHi, bLo + snake.y1, bHi);
+    }
+    matches.push(...tail.reverse());
+  };
+
+  walk(0, a.length, 0, b.length);
+  return matches;
+}
+
+/**
+ * Diff two sequences and return the changed regions as hunks.
+ */
+export function diffSequences(a: readonly string[], b: readonly string[]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [mi, mj] of [...matchSequences(a, b), [a.length, b.length] as [number, number]]) {
+    if (mi > i || mj > j) {
+      hunks.push({ aStart: i, aEnd: mi, bStart: j, bEnd: mj });
+    }
+    i = mi + 1;
+    j = mj + 1;
+  }
+  return hunks;
+}
+
+/**
+ * A single text replacement in `a` coordinates: `del` (which starts at
+ * `pos` in `a`) was replaced by `ins`.
+ */
+export interface TextEdit {
+  pos: number;
+  del: string;
+  ins: string;
+}
+
+/**
+ * Split text into lines that keep their terminator, so every line maps to
+ * an exact character range (the last line may lack a newline).
+ */
+function terminatedLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Diff two texts line by line and return the minimal character edits,
+ * in ascending order of position. Each changed line region is trimmed of
+ * its common prefix and suffix, so a one-word change yields a one-word edit.
+ */
+export function diffText(a: string, b: string): TextEdit[] {
+  const aLines = terminatedLines(a);
+  const bLines = terminatedLines(b);
+  const aOffsets = [0];
+  for (const line of aLines) aOffsets.push(aOffsets[aOffsets.length - 1] + line.length);
+
+  const edits: TextEdit[] = [];
+  for (const h of diffSequences(aLines, bLines)) {
+    let del = aLines.slice(h.aStart, h.aEnd).join('');
+    let ins = bLines.slice(h.bStart, h.bEnd).join('');
+    let pos = aOffsets[h.aStart];
+
+    let prefix = 0;
+    while (prefix < del.length && prefix < ins.length && del[prefix] === ins[prefix]) prefix++;
+    let suffix = 0;
+    while (
+      suffix < del.length - prefix && suffix < ins.length - prefix &&
+      del[del.length - 1 - suffix] === ins[ins.length - 1 - suffix]
+    ) suffix++;
+
+    pos += prefix;
+    del = del.slice(prefix, del.length - suffix);
+    ins = ins.slice(prefix, ins.length - suffix);
+    if (del || ins) edits.push({ pos, del, ins });
+  }
+  return edits;
+}
+
+/**
+ * Unified diff body (hunk headers and `' '`/`-`/`+` lines, no file
+ * headers) plus line counts for `--stat`-style summaries.
+ */
+export interface UnifiedDiff {
+  lines: string[];
+  additions: number;
+  deletions: number;
+}
+
+const NO_NEWLINE = '\\ No newline at end of file';
+
+/**
+ * Lines of `text` for a unified diff, plus comparison keys that make a
+ * missing final newline count as a change (as in `diff -u`).
+ */
+function diffLines(text: string): { lines: string[]; keys: string[]; missingNewline: boolean } {
+  if (text === '') return { lines: [], keys: [], missingNewline: false };
+  const lines = splitLines(text);
+  const missingNewline = !text.endsWith('\n');
+  if (!missingNewline) lines.pop();
+  const keys = lines.slice();
+  if (missingNewline) keys[keys.length - 1] += '\0';
+  return { lines, keys, missingNewline };
+}
+
+function hunkRange(start: number, length: number): string {
+  // diff -u numbers an empty range by the line before it
+  if (length === 0) return `${start},0`;
+  return length === 1 ? `${start + 1}` : `${start + 1},${length}`;
+}
+
+/**
+ * Build a unified diff from `a` to `b` with `context` lines around changes.
+ */
+export function unifiedDiff(a: string, b: string, context = 3): UnifiedDiff {
+  const left = diffLines(a);
+  const right = diffLines(b);
+  const hunks = diffSequences(left.keys, right.keys);
+  const out: string[] = [];
+  let additions = 0;
+  let deletions = 0;
+
+  const emit = (prefix: string, side: typeof left, index: number) => {
+    out.push(prefix + side.lines[index]);
+    if (side.missingNewline && index === side.lines.length - 1) out.push(NO_NEWLINE);
+  };
+
+  let i = 0;
+  while (i < hunks.length) {
+    // Hunks closer than two context windows share one @@ block
+    let j = i;
+    while (j + 1 < hunks.length && hunks[j + 1].aStart - hunks[j].aEnd <= 2 * context) j++;
+
+    const aStart = Math.max(0, hunks[i].aStart - context);
+    const aEnd = Math.min(left.lines.length, hunks[j].aEnd + context);
+    const bStart = hunks[i].bStart - (hunks[i].aStart - aStart);
+    const bEnd = hunks[j].bEnd + (aEnd - hunks[j].aEnd);
+    out.push(`@@ -${hunkRange(aStart, aEnd - aStart)} +${hunkRange(bStart, bEnd - bStart)} @@`);
+
+    let cursor = aStart;
+    for (let k = i; k <= j; k++) {
+      const h = hunks[k];
+      for (; cursor < h.aStart; cursor++) emit(' ', left, cursor);
+      for (let x = h.aStart; x < h.aEnd; x++) emit('-', left, x);
+      for (let y = h.bStart; y < h.bEnd; y++) emit('+', right, y);
+      deletions += h.aEnd - h.aStart;
+      additions += h.bEnd - h.bStart;
+      cursor = h.aEnd;
+    }
+    for (; cursor < aEnd; cursor++) emit(' ', left, cursor);
+    i = j + 1;
+  }
+
+  return { lines: out, additions, deletions };
+}
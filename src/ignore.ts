@@ -19,7 +19,7 @@
  * See issue #19 for design rationale.
  */
 
-import { readFileSync, existsSync } from 'node:fs';
+import { readFileSync, existsSync, readdirSync } from 'node:fs';
 import { join, dirname, basename } from 'node:path';
 import ignore, { Ignore } from 'ignore';
 
@@ -157,6 +157,21 @@ export function loadIgnore(root: string, opts: LoadIgnoreOptions = {}): IgnoreCo
   };
 }
 
+/**
+ * IgnoreContext with only the built-in defaults, for file sets that do not
+ * come from a project directory (e.g. a downloaded project zip).
+ */
+export function defaultIgnoreContext(): IgnoreContext {
+  const patterns = [...DEFAULT_IGNORE_PATTERNS];
+  return {
+    patterns,
+    sources: [{ label: 'built-in defaults', patterns }],
+    defaultsEnabled: true,
+    enabled: true,
+    matcher: ignore().add(patterns),
+  };
+}
+
 /**
  * Decide whether a given relative path should be ignored.
  *
@@ -211,3 +226,43 @@ export function buildTexSiblingSet(folderFileNames: Iterable<string>): Set<strin
   }
   return out;
 }
+
+/**
+ * Walk a project working tree and return every file that survives ignore
+ * filtering, as forward-slash paths relative to `root`. Hidden entries
+ * (including `.olcli.json` and `.olcli/`) are always skipped.
+ *
+ * @param base     Only walk this subdirectory of `root`.
+ * @param ignored  Receives the ignored paths (directories with a trailing
+ *                 slash), for `--show-ignored`-style reporting.
+ */
+export function listProjectFiles(
+  root: string,
+  ctx: IgnoreContext,
+  opts: { base?: string; ignored?: string[] } = {},
+): string[] {
+  const out: string[] = [];
+  const walk = (relativeBase: string) => {
+    const entries = readdirSync(relativeBase ? join(root, relativeBase) : root, { withFileTypes: true });
+    const texSiblings = buildTexSiblingSet(
+      entries.filter((e) => !e.isDirectory()).map((e) => e.name),
+    );
+    for (const entry of entries) {
+      if (entry.name.startsWith('.')) continue;
+      const relativePath = relativeBase ? `${relativeBase}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (shouldIgnore(`${relativePath}/`, ctx)) {
+          opts.ignored?.push(`${relativePath}/`);
+          continue;
+        }
+        walk(relativePath);
+      } else if (shouldIgnore(relativePath, ctx, texSiblings)) {
+        opts.ignored?.push(relativePath);
+      } else {
+        out.push(relativePath);
+      }
+    }
+  };
+  walk(opts.base ?? '');
+  return out;
+}
@@ -0,0 +1,229 @@
+/**
+ * LaTeX log parsing for olcli
+ *
+ * Turns a TeX engine log (`output.log`) into a list of errors, warnings and
+ * bad boxes with the file and line they refer to. The approach follows
+ * Overleaf's own log parser:
+ *
+ *   - TeX wraps log lines at 79 characters; wrapped lines are joined first.
+ *   - The current file is tracked with a stack: TeX prints `(./file.tex`
+ *     when it opens a file and `)` when it closes it. Parentheses that do
+ *     not open a path are counted so their `)` does not pop a file.
+ *   - Errors start with `! ` (or `file:line: ` with -file-line-error) and
+ *     get their line number from the following `l.<n>` context line.
+ *   - Warnings come from `LaTeX`/`Package`/`Class ... Warning:` lines and
+ *     their `(name)`-prefixed continuation lines.
+ *   - Bad boxes are `Overfull`/`Underfull \hbox|\vbox` lines.
+ */
+
+/** Wrap width of TeX's log (max_print_line). */
+const LOG_WRAP_LIMIT = 79;
+
+/** How far to look for the `l.<n>` line after an error. */
+const ERROR_CONTEXT_LINES = 20;
+
+export type LogLevel = 'error' | 'warning' | 'typesetting';
+
+export type LogEntryKind =
+  | 'error'
+  | 'warning'
+  | 'undefined-reference'
+  | 'undefined-citation'
+  | 'overfull'
+  | 'underfull';
+
+export interface LogEntry {
+  level: LogLevel;
+  kind: LogEntryKind;
+  message: string;
+  /** Path as seen by the compiler, relative to the project root when possible. */
+  file?: string;
+  line?: number;
+  /** Log lines following the message (TeX context, help text). */
+  content?: string;
+}
+
+/**
+ * Join lines TeX wrapped at the log width. A line ending in `...` was
+ * truncated by TeX rather than wrapped.
+ */
+function unwrapLines(log: string): string[] {
+  const wrapped = log.replace(/\r\n?/g, '\n').split('\n');
+  const lines = [wrapped[0]];
+  for (let i = 1; i < wrapped.length; i++) {
+    const prev = wrapped[i - 1];
+    if (prev.length === LOG_WRAP_LIMIT && !prev.endsWith('...')) {
+      lines[lines.length - 1] += wrapped[i];
+    } else {
+      lines.push(wrapped[i]);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Normalize a path printed by the compiler: drop `./` and the compile
+ * directory prefix so project files come out as project paths.
+ */
+export function normalizeLogPath(path: string): string {
+  return path
+    .replace(/^"(.*)"$/, '$1')
+    .replace(/^\/compile\//, '')
+    .replace(/^(\.\/)+/, '');
+}
+
+const FILE_LINE_ERROR = /^((?:\.{0,2}\/)?[^:\s][^:]*\.[A-Za-z0-9]+):(\d+): (.*)$/;
+const WARNING = /^(LaTeX|Package\s+(\S+)|Class\s+(\S+))(?:\s+(\S+))?\s+Warning:\s*(.*)$/;
+const BAD_BOX = /^(Over|Under)full \\[hv]box/;
+
+function warningKind(message: string): LogEntryKind {
+  if (/^(?:Reference|Hyper reference) [`'"].*undefined/.test(message)) return 'undefined-reference';
+  if (/^Citation [`'"].*undefined/.test(message)) return 'undefined-citation';
+  return 'warning';
+}
+
+/**
+ * Parse a LaTeX log into entries, in log order.
+ */
+export function parseLatexLog(log: string): LogEntry[] {
+  const lines = unwrapLines(log);
+  const entries: LogEntry[] = [];
+  const fileStack: string[] = [];
+  let openParens = 0;
+
+  const currentFile = () => (fileStack.length > 0 ? fileStack[fileStack.length - 1] : undefined);
+
+  /**
+   * Update the file stack from the parentheses in a line.
+   */
+  const trackFiles = (line: string) => {
+    let rest = line;
+    for (;;) {
+      const pos = rest.search(/[()]/);
+      if (pos === -1) return;
+      const token = rest[pos];
+      rest = rest.slice(pos + 1);
+      if (token === '(') {
+        // Paths contain a slash: ./main.tex, /usr/local/texlive/...
+        const path = rest.match(/^"[^"]*\/[^"]*"|^\/?(?:[^\s()"]+\/)+[^\s()"]*/)?.[0];
+        if (path) {
+          fileStack.push(normalizeLogPath(path));
+          rest = rest.slice(path.length);
+        } else {
+          openParens++;
+        }
+      } else if (openParens > 0) {
+        openParens--;
+      } else {
+        fileStack.pop();
+      }
+    }
+  };
+
+  /**
+   * Collect the context after an error up to (and including) its `l.<n>`
+   * line. Returns the line number and the index of the last consumed line.
+   */
+  const errorContext = (start: number): { line?: number; content: string; end: number } => {
+    const content: string[] = [];
+    for (let i = start + 1; i < lines.length && i <= start + ERROR_CONTEXT_LINES; i++) {
+      const text = lines[i];
+      if (text.startsWith('! ') || FILE_LINE_ERROR.test(text)) break;
+      content.push(text);
+      const lineNo = text.match(/^l\.(\d+)/);
+      if (lineNo) {
+        // The next line holds the rest of the source line, indented
+        let end = i;
+        if (i + 1 < lines.length && /^\s+\S/.test(lines[i + 1])) {
+          content.push(lines[i + 1]);
+          end = i + 1;
+        }
+        return { line: Number(lineNo[1]), content: content.join('\n').trim(), end };
+      }
+    }
+    return { content: '', end: start };
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i];
+
+    if (text.startsWith('! ') && !text.startsWith('!  ==> Fatal error occurred')) {
+      const context = errorContext(i);
+      entries.push({
+        level: 'error',
+        kind: 'error',
+        message: text.slice(2).trim(),
+        file: currentFile(),
+        line: context.line,
+        content: context.content || undefined,
+      });
+      i = context.end;
+      continue;
+    }
+
+    const fileLine = text.match(FILE_LINE_ERROR);
+    if (fileLine) {
+      const context = errorContext(i);
+      entries.push({
+        level: 'error',
+        kind: 'error',
+        message: fileLine[3].trim(),
+        file: normalizeLogPath(fileLine[1]),
+        line: Number(fileLine[2]),
+        content: context.content || undefined,
+      });
+      i = context.end;
+      continue;
+    }
+
+    const warning = text.match(WARNING);
+    if (warning) {
+      // Continuation lines are prefixed with the package/class name in
+      // parentheses, e.g. "(hyperref)" or "(Font)"
+      const name = warning[2] ?? warning[3] ?? warning[4] ?? 'LaTeX';
+      let message = warning[5].trim();
+      while (i + 1 < lines.length && lines[i + 1].startsWith(`(${name})`)) {
+        i++;
+        message += ' ' + lines[i].slice(name.length + 2).trim();
+      }
+      const lineNo = message.match(/on input line (\d+)\.?/);
+      entries.push({
+        level: 'warning',
+        kind: warningKind(message),
+        message,
+        file: currentFile(),
+        line: lineNo ? Number(lineNo[1]) : undefined,
+      });
+      continue;
+    }
+
+    const badBox = text.match(BAD_BOX);
+    if (badBox) {
+      const lineNo = text.match(/at lines? (\d+)/);
+      entries.push({
+        level: 'typesetting',
+        kind: badBox[1] === 'Over' ? 'overfull' : 'underfull',
+        message: text.trim(),
+        file: currentFile(),
+        line: lineNo ? Number(lineNo[1]) : undefined,
+      });
+      // Skip the box content TeX prints after the message
+      while (i + 1 < lines.length && /^(\[|\\|\s+\S|\|)/.test(lines[i + 1])) i++;
+      continue;
+    }
+
+    trackFiles(text);
+  }
+
+  return entries;
+}
+
+/**
+ * Format an entry like a compiler diagnostic (`file:line: level: message`),
+ * which editors and terminals recognise as a jump target.
+ */
+export function formatLogEntry(entry: LogEntry, file = entry.file): string {
+  const location = file ? (entry.line !== undefined ? `${file}:${entry.line}: ` : `${file}: `) : '';
+  const level = entry.level === 'typesetting' ? 'warning' : entry.level;
+  return `${location}${level}: ${entry.message}`;
+}
@@ -0,0 +1,89 @@
+/**
+ * Project metadata (.olcli.json) and content-hash manifest
+ *
+ * Besides the project id/name, `.olcli.json` records the state of every
+ * tracked file at the last pull/push/sync:
+ *
+ *   remoteFiles  — hash + size of each file as it was on Overleaf
+ *   localFiles   — hash + size of each file as it was in the working tree
+ *
+ * Comparing current content against these hashes tells whether a side
+ * really changed, independent of mtimes (which `git checkout`, `touch`,
+ * copying a directory or clock skew all disturb).
+ *
+ * Directories synced by older olcli versions only carry `lastPull` and a
+ * plain `remoteManifest` path list; callers fall back to mtime comparison
+ * there until the next pull or sync writes the hashes.
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { CompileSettings } from './compile.js';
+
+export const META_FILE = '.olcli.json';
+
+export interface FileState {
+  /** SHA-1 of the file content (hex). */
+  hash: string;
+  /** Size in bytes. */
+  size: number;
+}
+
+export type FileStates = Record<string, FileState>;
+
+export interface ProjectMeta {
+  projectId: string;
+  projectName: string;
+  lastPull?: string;
+  lastPush?: string;
+  lastSync?: string;
+  rootFolderId?: string;
+  /** Remote paths at last sync (kept for older olcli versions). */
+  remoteManifest?: string[];
+  remoteFiles?: FileStates;
+  localFiles?: FileStates;
+  /** Defaults for compile/pdf/output (see compile.ts). */
+  compile?: CompileSettings;
+  /**
+   * Paths written with tracked-change markup by `pull --with-track-changes`.
+   * push, sync and watch leave them alone until a plain pull replaces them.
+   */
+  trackChangesMarkup?: string[];
+  [key: string]: unknown;
+}
+
+export function hashContent(content: Buffer): string {
+  return createHash('sha1').update(content).digest('hex');
+}
+
+export function fileState(content: Buffer): FileState {
+  return { hash: hashContent(content), size: content.length };
+}
+
+/**
+ * True when `content` differs from the recorded state (or nothing was
+ * recorded). The size check short-circuits hashing for most edits.
+ */
+export function isChanged(recorded: FileState | undefined, content: Buffer): boolean {
+  if (!recorded) return true;
+  if (recorded.size !== content.length) return true;
+  return recorded.hash !== hashContent(content);
+}
+
+/**
+ * True when the metadata carries a hash manifest (see module comment).
+ */
+export function hasHashManifest(meta: ProjectMeta | undefined): boolean {
+  return !!meta?.localFiles && !!meta?.remoteFiles;
+}
+
+export function readProjectMeta(dir: string): ProjectMeta | undefined {
+  const metaPath = join(dir, META_FILE);
+  if (!existsSync(metaPath)) return undefined;
+  return JSON.parse(readFileSync(metaPath, 'utf-8')) as ProjectMeta;
+}
+
+export function writeProjectMeta(dir: string, meta: ProjectMeta): void {
+  writeFileSync(join(dir, META_FILE), JSON.stringify(meta, null, 2));
+}
@@ -0,0 +1,220 @@
+/**
+ * Three-way merge for olcli sync
+ *
+ * Given the base version of a document (as of the last successful pull),
+ * the local working copy and the current remote copy, combine both sets of
+ * edits line by line. Hunks that change disjoint line ranges of the base
+ * merge cleanly, even when they sit next to each other; hunks that overlap
+ * (or insert at the same point) and disagree are written out with
+ * git-style conflict markers:
+ *
+ *   <<<<<<< local
+ *   ...local lines...
+ *   =======
+ *   ...remote lines...
+ *   >>>>>>> remote
+ */
+
+import { diffSequences, splitLines, type Hunk } from './diff.js';
+import { isTextContent } from './base.js';
+
+export interface MergeResult {
+  /** Merged text (contains conflict markers when `conflicts > 0`). */
+  text: string;
+  /** Number of conflicting regions. */
+  conflicts: number;
+}
+
+export interface MergeLabels {
+  local?: string;
+  remote?: string;
+}
+
+interface SideHunk extends Hunk {
+  side: 'local' | 'remote';
+}
+
+/**
+ * Lines of `side` corresponding to base range [start, end), given the
+ * side's hunks that fall inside that range.
+ */
+function sideSlice(
+  lines: string[],
+  hunks: Hunk[],
+  start: number,
+  end: number
+): string[] {
+  // Regions absorb every hunk starting inside them, so hunks either start
+  // before the region (shifting coordinates) or inside it (resizing it).
+  let offset = 0;
+  let growth = 0;
+  for (const h of hunks) {
+    const delta = (h.bEnd - h.bStart) - (h.aEnd - h.aStart);
+    if (h.aStart < start) offset += delta;
+    else if (startsInRegion(h, start, end)) growth += delta;
+  }
+  return lines.slice(start + offset, end + offset + growth);
+}
+
+/**
+ * Whether hunk `h` belongs to the region [start, end). A hunk starting
+ * exactly at `end` only abuts the region and stays out of it, except for
+ * insertions at the region's own start point, which can't be ordered.
+ */
+function startsInRegion(h: Hunk, start: number, end: number): boolean {
+  return h.aStart < end || h.aStart === start;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Merge `local` and `remote`, both derived from `base`.
+ */
+export function mergeThreeWay(
+  base: string,
+  local: string,
+  remote: string,
+  labels: MergeLabels = {}
+): MergeResult {
+  if (local === remote) return { text: local, conflicts: 0 };
+  if (local === base) return { text: remote, conflicts: 0 };
+  if (remote === base) return { text: local, conflicts: 0 };
+
+  const baseLines = splitLines(base);
+  const localLines = splitLines(local);
+  const remoteLines = splitLines(remote);
+  const localHunks = diffSequences(baseLines, localLines);
+  const remoteHunks = diffSequences(baseLines, remoteLines);
+
+  const all: SideHunk[] = [
+    ...localHunks.map((h) => ({ ...h, side: 'local' as const })),
+    ...remoteHunks.map((h) => ({ ...h, side: 'remote' as const })),
+  ].sort((x, y) => x.aStart - y.aStart || x.aEnd - y.aEnd);
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let cursor = 0;
+  let i = 0;
+
+  while (i < all.length) {
+    // Grow a region over every hunk that overlaps it.
+    let start = all[i].aStart;
+    let end = all[i].aEnd;
+    const inRegion: SideHunk[] = [all[i]];
+    i++;
+    while (i < all.length && startsInRegion(all[i], start, end)) {
+      end = Math.max(end, all[i].aEnd);
+      inRegion.push(all[i]);
+      i++;
+    }
+
+    out.push(...baseLines.slice(cursor, start));
+
+    const localIn = inRegion.filter((h) => h.side === 'local');
+    const remoteIn = inRegion.filter((h) => h.side === 'remote');
+    const localSlice = sideSlice(localLines, localHunks, start, end);
+    const remoteSlice = sideSlice(remoteLines, remoteHunks, start, end);
+
+    if (remoteIn.length === 0) {
+      out.push(...localSlice);
+    } else if (localIn.length === 0) {
+      out.push(...remoteSlice);
+    } else if (sameLines(localSlice, remoteSlice)) {
+      out.push(...localSlice);
+    } else {
+      conflicts++;
+      out.push(`<<<<<<< ${labels.local ?? 'local'}`);
+      out.push(...localSlice);
+      out.push('=======');
+      out.push(...remoteSlice);
+      out.push(`>>>>>>> ${labels.remote ?? 'remote'}`);
+    }
+
+    cursor = end;
+  }
+
+  out.push(...baseLines.slice(cursor));
+  return { text: out.join('\n'), conflicts };
+}
+
+/**
+ * True when `content` still holds conflict markers written by a merge
+ * (all three marker lines present, in order).
+ */
+export function hasConflictMarkers(content: Buffer): boolean {
+  if (!isTextContent(content)) return false;
+  const text = content.toString('utf-8');
+  const start = text.search(/^<<<<<<< /m);
+  if (start < 0) return false;
+  const middle = text.slice(start).search(/^=======$/m);
+  return middle >= 0 && /^>>>>>>> /m.test(text.slice(start + middle));
+}
+
+/**
+ * Outcome of reconciling one path during sync:
+ *
+ *   unchanged  both sides already agree
+ *   pull       only the remote changed — write it locally
+ *   push       only the local copy changed — upload it
+ *   overwrite  both changed but cannot be merged (binary, or no base) — upload local
+ *   merged     both changed, merged cleanly — write locally and upload
+ *   conflict   both changed in overlapping lines — write markers locally only
+ *              (also returned while the local copy still has unresolved markers)
+ */
+export type ReconcileAction = 'unchanged' | 'pull' | 'push' | 'overwrite' | 'merged' | 'conflict';
+
+export interface Reconciliation {
+  action: ReconcileAction;
+  /** Content the working tree should hold afterwards. */
+  working: Buffer;
+  /** Content both sides agree on afterwards (new base / remote state). */
+  agreed: Buffer;
+}
+
+export interface ReconcileInput {
+  local?: Buffer;
+  remote: Buffer;
+  base?: Buffer;
+  localChanged: boolean;
+  remoteChanged: boolean;
+}
+
+/**
+ * Decide how to bring a local and a remote copy of one file back in sync.
+ * Change flags come from the caller (content hashes, base snapshot or
+ * mtimes), so this stays independent of how state is tracked.
+ */
+export function reconcileFile(input: ReconcileInput): Reconciliation {
+  const { local, remote, base } = input;
+
+  if (!local || !input.localChanged) {
+    const action = local && local.equals(remote) ? 'unchanged' : 'pull';
+    return { action, working: remote, agreed: remote };
+  }
+  if (local.equals(remote)) {
+    return { action: 'unchanged', working: local, agreed: local };
+  }
+  if (hasConflictMarkers(local)) {
+    // Left over from an earlier conflict: neither upload nor overwrite it
+    return { action: 'conflict', working: local, agreed: remote };
+  }
+  if (!input.remoteChanged) {
+    return { action: 'push', working: local, agreed: local };
+  }
+  if (!base || !isTextContent(local) || !isTextContent(remote)) {
+    return { action: 'overwrite', working: local, agreed: local };
+  }
+
+  const merged = mergeThreeWay(base.toString('utf-8'), local.toString('utf-8'), remote.toString('utf-8'));
+  const mergedContent = Buffer.from(merged.text, 'utf-8');
+  if (merged.conflicts === 0) {
+    return { action: 'merged', working: mergedContent, agreed: mergedContent };
+  }
+  // The remote becomes the new base so the resolved file is pushed as a
+  // local change later, while an unresolved file is never pushed. Callers
+  // must not record `working` as the local state, or the markers would
+  // look like an unmodified file and be overwritten by the next pull.
+  return { action: 'conflict', working: mergedContent, agreed: remote };
+}
@@ -0,0 +1,479 @@
+/**
+ * Real-time collaboration session for olcli
+ *
+ * Overleaf's editor talks to the server over Socket.IO 0.9. Besides the
+ * project tree (joinProjectResponse), the same channel lets a client join a
+ * document, read its lines and version, and submit ShareJS text operations
+ * (`applyOtUpdate`) against that version. Editing docs this way, rather than
+ * replacing them through `/upload`, keeps the doc id, history attribution
+ * and collaborators' open editors intact.
+ *
+ * Only the xhr-polling transport is used: one long-poll GET is kept in
+ * flight to receive packets, and every outgoing packet is a POST.
+ */
+
+import { isTextContent } from './base.js';
+import { diffText } from './diff.js';
+
+/**
+ * HTTP access the session needs from OverleafClient (cookies, CSRF and
+ * Set-Cookie handling stay inside the client).
+ */
+export interface SocketTransport {
+  baseUrl: string;
+  request(url: string, options?: {
+    method?: 'GET' | 'POST';
+    body?: string;
+    timeoutMs?: number;
+  }): Promise<{ ok: boolean; status: number; body: string }>;
+}
+
+/**
+ * ShareJS text operation component: insert `i` or delete `d` at `p`.
+ * Components apply in order, each against the result of the previous one.
+ * A comment component (`c`, thread `t`) highlights existing text for a
+ * review comment without changing it. `u` marks an undo, which cancels a
+ * tracked change instead of recording a new one.
+ */
+export type OtComponent =
+  | { p: number; i: string; u?: boolean }
+  | { p: number; d: string; u?: boolean }
+  | { p: number; c: string; t: string };
+
+export interface JoinedDoc {
+  lines: string[];
+  version: number;
+}
+
+type Listener = (...args: any[]) => void;
+
+interface PendingAck {
+  resolve: (args: any[]) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+const ACK_TIMEOUT_MS = 30000;
+const POLL_TIMEOUT_MS = 60000;
+
+/**
+ * Decode Socket.IO 0.9 payloads. Frames may be a single packet or \ufffd-length framed packets.
+ */
+export function decodeSocketIoPayload(payload: string): string[] {
+  if (!payload) return [];
+  if (!payload.startsWith('\ufffd')) return [payload];
+
+  const packets: string[] = [];
+  let i = 0;
+
+  while (i < payload.length) {
+    if (payload[i] !== '\ufffd') break;
+    i += 1;
+
+    let len = '';
+    while (i < payload.length && payload[i] !== '\ufffd') {
+      len += payload[i];
+      i += 1;
+    }
+
+    if (i >= payload.length || payload[i] !== '\ufffd') break;
+    i += 1;
+
+    const packetLen = Number.parseInt(len, 10);
+    if (!Number.isFinite(packetLen) || packetLen < 0) break;
+
+    packets.push(payload.slice(i, i + packetLen));
+    i += packetLen;
+  }
+
+  return packets;
+}
+
+/**
+ * Build the text operation that turns `current` into `target`.
+ */
+export function textOps(current: string, target: string): OtComponent[] {
+  const ops: OtComponent[] = [];
+  let shift = 0;
+  for (const edit of diffText(current, target)) {
+    const p = edit.pos + shift;
+    if (edit.del) ops.push({ p, d: edit.del });
+    if (edit.ins) ops.push({ p, i: edit.ins });
+    shift += edit.ins.length - edit.del.length;
+  }
+  return ops;
+}
+
+function socketError(value: any): Error {
+  if (value instanceof Error) return value;
+  if (typeof value === 'string') return new Error(value);
+  return new Error(value?.message || JSON.stringify(value));
+}
+
+/**
+ * A connected collaboration session for one project.
+ */
+export class RealtimeSession {
+  /** Project object from joinProjectResponse (rootFolder tree, members, ...). */
+  project: any = null;
+
+  private sid: string | null = null;
+  private closed = false;
+  private nextAckId = 1;
+  private pendingAcks = new Map<number, PendingAck>();
+  private listeners = new Map<string, Listener[]>();
+
+  constructor(private transport: SocketTransport, readonly projectId: string) {}
+
+  get connected(): boolean {
+    return this.sid !== null && !this.closed;
+  }
+
+  private pollUrl(): string {
+    return `${this.transport.baseUrl}/socket.io/1/xhr-polling/${this.sid}?projectId=${encodeURIComponent(this.projectId)}&t=${Date.now()}`;
+  }
+
+  /**
+   * Handshake, start polling and wait for the project to be joined.
+   */
+  async connect(timeoutMs = 15000): Promise<any> {
+    const handshakeUrl = `${this.transport.baseUrl}/socket.io/1/?projectId=${encodeURIComponent(this.projectId)}&t=${Date.now()}`;
+    const handshake = await this.transport.request(handshakeUrl, { timeoutMs: 5000 });
+    if (!handshake.ok) {
+      throw new Error(`Failed to open collaboration socket: ${handshake.status}`);
+    }
+    this.sid = handshake.body.trim().split(':')[0] || null;
+    if (!this.sid) {
+      throw new Error('Failed to open collaboration socket: no session id');
+    }
+
+    const joined = new Promise<any>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Timed out joining project')), timeoutMs);
+      this.once('joinProjectResponse', (response: any) => {
+        clearTimeout(timer);
+        resolve(response?.project);
+      });
+      this.once('connectionRejected', (error: any) => {
+        clearTimeout(timer);
+        reject(new Error(`Connection rejected: ${socketError(error).message}`));
+      });
+      this.once('disconnect', (error: Error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+
+    void this.pollLoop();
+
+    try {
+      this.project = await joined;
+      return this.project;
+    } catch (error) {
+      await this.disconnect();
+      throw error;
+    }
+  }
+
+  on(name: string, listener: Listener): void {
+    const list = this.listeners.get(name) ?? [];
+    list.push(listener);
+    this.listeners.set(name, list);
+  }
+
+  off(name: string, listener: Listener): void {
+    const list = this.listeners.get(name);
+    if (list) this.listeners.set(name, list.filter((l) => l !== listener));
+  }
+
+  private once(name: string, listener: Listener): void {
+    const wrapper: Listener = (...args) => {
+      this.off(name, wrapper);
+      listener(...args);
+    };
+    this.on(name, wrapper);
+  }
+
+  private dispatch(name: string, args: any[]): void {
+    for (const listener of this.listeners.get(name) ?? []) {
+      listener(...args);
+    }
+  }
+
+  private async send(packet: string): Promise<void> {
+    const response = await this.transport.request(this.pollUrl(), {
+      method: 'POST',
+      body: packet,
+      timeoutMs: 10000,
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to send socket packet: ${response.status}`);
+    }
+  }
+
+  private async pollLoop(): Promise<void> {
+    while (this.connected) {
+      try {
+        const response = await this.transport.request(this.pollUrl(), { timeoutMs: POLL_TIMEOUT_MS });
+        if (!this.connected) return;
+        if (!response.ok) {
+          throw new Error(`Socket poll failed: ${response.status}`);
+        }
+        for (const packet of decodeSocketIoPayload(response.body)) {
+          await this.handlePacket(packet);
+        }
+      } catch (error: any) {
+        if (this.connected) this.close(socketError(error));
+        return;
+      }
+    }
+  }
+
+  /**
+   * Handle one `type:id:endpoint:data` packet.
+   */
+  private async handlePacket(packet: string): Promise<void> {
+    const match = packet.match(/^(\d):([^:]*):([^:]*):?([\s\S]*)$/);
+    if (!match) return;
+    const [, type, , , data] = match;
+
+    switch (type) {
+      case '0':
+        this.close(new Error('Collaboration socket closed by server'));
+        break;
+      case '2':
+        await this.send('2::');
+        break;
+      case '5': {
+        try {
+          const event = JSON.parse(data);
+          if (event?.name) this.dispatch(event.name, event.args ?? []);
+        } catch { /* ignore malformed events */ }
+        break;
+      }
+      case '6': {
+        const ack = data.match(/^(\d+)\+?([\s\S]*)$/);
+        if (!ack) break;
+        const pending = this.pendingAcks.get(Number(ack[1]));
+        if (!pending) break;
+        this.pendingAcks.delete(Number(ack[1]));
+        clearTimeout(pending.timer);
+        try {
+          pending.resolve(ack[2] ? JSON.parse(ack[2]) : []);
+        } catch (error: any) {
+          pending.reject(socketError(error));
+        }
+        break;
+      }
+      case '7':
+        this.close(new Error(`Collaboration socket error: ${data || 'unknown'}`));
+        break;
+    }
+  }
+
+  /**
+   * Emit an event and wait for its acknowledgement. Overleaf acknowledges
+   * with node-style callback arguments, so a non-null first argument is
+   * thrown and the rest are returned.
+   */
+  async call(name: string, ...args: any[]): Promise<any[]> {
+    if (!this.connected) {
+      throw new Error('Collaboration socket is not connected');
+    }
+    const id = this.nextAckId++;
+    const acked = new Promise<any[]>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingAcks.delete(id);
+        reject(new Error(`Timed out waiting for ${name}`));
+      }, ACK_TIMEOUT_MS);
+      this.pendingAcks.set(id, { resolve, reject, timer });
+    });
+    await this.send(`5:${id}+::${JSON.stringify({ name, args })}`);
+    const [error, ...results] = await acked;
+    if (error) throw socketError(error);
+    return results;
+  }
+
+  /**
+   * Join a doc and return its current lines and version.
+   */
+  async joinDoc(docId: string): Promise<JoinedDoc> {
+    const [lines, version] = await this.call('joinDoc', docId, { encodeRanges: true });
+    // With encodeRanges, lines arrive as UTF-8 bytes packed into a binary string
+    return {
+      lines: (lines as string[]).map((line) => Buffer.from(line, 'latin1').toString('utf-8')),
+      version: version as number,
+    };
+  }
+
+  async leaveDoc(docId: string): Promise<void> {
+    await this.call('leaveDoc', docId);
+  }
+
+  /**
+   * Submit an operation made against `version` of a joined doc. The server
+   * transforms it over any concurrent updates before applying it.
+   */
+  async applyOtUpdate(docId: string, op: OtComponent[], version: number): Promise<void> {
+    await this.call('applyOtUpdate', docId, { doc: docId, op, v: version });
+  }
+
+  /**
+   * Edit a doc so its content becomes `text`, sending only the changed
+   * ranges. Returns false when the doc already had that content.
+   */
+  async replaceDocText(docId: string, text: string): Promise<boolean> {
+    const { lines, version } = await this.joinDoc(docId);
+    try {
+      const op = textOps(lines.join('\n'), text);
+      if (op.length === 0) return false;
+      await this.applyOtUpdate(docId, op, version);
+      return true;
+    } finally {
+      await this.leaveDoc(docId).catch(() => { /* best effort */ });
+    }
+  }
+
+  /**
+   * Anchor comment thread `threadId` to `text` at offset `position` of a
+   * doc. Fails when the doc no longer has that text there.
+   */
+  async addCommentRange(docId: string, position: number, text: string, threadId: string): Promise<void> {
+    const { lines, version } = await this.joinDoc(docId);
+    try {
+      if (lines.join('\n').slice(position, position + text.length) !== text) {
+        throw new Error('The doc changed while adding the comment; try again');
+      }
+      await this.applyOtUpdate(docId, [{ p: position, c: text, t: threadId }], version);
+    } finally {
+      await this.leaveDoc(docId).catch(() => { /* best effort */ });
+    }
+  }
+
+  /**
+   * Reject tracked changes of a doc by undoing them: tracked insertions
+   * are deleted and tracked deletions put back. Fails when the doc no
+   * longer has an insertion's text where the change says.
+   */
+  async rejectChanges(
+    docId: string,
+    changes: Array<{ type: 'insert' | 'delete'; position: number; text: string }>
+  ): Promise<void> {
+    const { lines, version } = await this.joinDoc(docId);
+    try {
+      const text = lines.join('\n');
+      for (const change of changes) {
+        if (change.type === 'insert' && text.slice(change.position, change.position + change.text.length) !== change.text) {
+          throw new Error('The doc changed while rejecting changes; try again');
+        }
+      }
+      // Back to front so offsets stay valid; at the same offset the
+      // insertion is removed before the deleted text is put back
+      const op: OtComponent[] = [...changes]
+        .sort((a, b) => b.position - a.position || (a.type === b.type ? 0 : a.type === 'insert' ? -1 : 1))
+        .map((change) => change.type === 'insert'
+          ? { p: change.position, d: change.text, u: true }
+          : { p: change.position, i: change.text, u: true });
+      await this.applyOtUpdate(docId, op, version);
+    } finally {
+      await this.leaveDoc(docId).catch(() => { /* best effort */ });
+    }
+  }
+
+  /**
+   * Look up a doc id by project path in the joined project tree.
+   */
+  findDocId(path: string): string | undefined {
+    const search = (folder: any, prefix: string): string | undefined => {
+      for (const doc of folder?.docs ?? []) {
+        if (`${prefix}${doc.name}` === path) return doc._id;
+      }
+      for (const sub of folder?.folders ?? []) {
+        const found = search(sub, `${prefix}${sub.name}/`);
+        if (found) return found;
+      }
+      return undefined;
+    };
+    return search(this.project?.rootFolder?.[0], '');
+  }
+
+  private close(error: Error): void {
+    if (this.closed) return;
+    this.closed = true;
+    for (const pending of this.pendingAcks.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.pendingAcks.clear();
+    this.dispatch('disconnect', [error]);
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this.connected) return;
+    try {
+      await this.send('0::');
+    } catch { /* ignore */ }
+    this.close(new Error('Collaboration socket closed'));
+  }
+}
+
+/**
+ * Writes files to a project, editing existing text docs in place over a
+ * lazily opened RealtimeSession and uploading everything else (binary
+ * files, new files, or any doc the socket cannot edit).
+ */
+export class DocWriter {
+  private session: RealtimeSession | null = null;
+  private unavailable = false;
+  private uploadedDocs = new Map<string, string>();
+
+  constructor(
+    private openSession: () => Promise<RealtimeSession>,
+    private options: { realtime: boolean } = { realtime: true }
+  ) {}
+
+  private async getSession(): Promise<RealtimeSession | null> {
+    if (!this.options.realtime || this.unavailable) return null;
+    if (this.session?.connected) return this.session;
+    try {
+      this.session = await this.openSession();
+    } catch {
+      // No socket (older instance, proxy, ...): uploads still work
+      this.unavailable = true;
+      this.session = null;
+    }
+    return this.session;
+  }
+
+  /**
+   * Bring `path` on the remote to `content`. `upload` performs the regular
+   * upload and is used whenever the doc cannot be edited in place.
+   */
+  async write(
+    path: string,
+    content: Buffer,
+    upload: () => Promise<{ entityId?: string; entityType?: string }>
+  ): Promise<'edited' | 'uploaded'> {
+    if (isTextContent(content)) {
+      const session = await this.getSession();
+      const docId = session && (this.uploadedDocs.get(path) ?? session.findDocId(path));
+      if (session && docId) {
+        try {
+          await session.replaceDocText(docId, content.toString('utf-8'));
+          return 'edited';
+        } catch {
+          // Fall back to replacing the doc
+        }
+      }
+    }
+    const result = await upload();
+    if (result.entityType === 'doc' && result.entityId) {
+      this.uploadedDocs.set(path, result.entityId);
+    }
+    return 'uploaded';
+  }
+
+  async close(): Promise<void> {
+    await this.session?.disconnect();
+    this.session = null;
+  }
+}
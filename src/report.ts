@@ -0,0 +1,182 @@
+/**
+ * CI reports for `olcli compile`
+ *
+ * Decides whether a compile should fail the build (`--fail-on`) and renders
+ * the parsed log entries (see latex-log.ts) as JUnit XML, GitHub Actions
+ * workflow commands or SARIF 2.1.0.
+ *
+ * Entries carry the path to report in `localFile` (relative to the current
+ * directory when the file exists in the working tree), so annotations land
+ * on the right file in a checked-out repository.
+ */
+
+import type { LogEntry } from './latex-log.js';
+
+export type ReportEntry = LogEntry & { localFile?: string };
+
+/** Extra conditions that fail a compile (errors always do). */
+export type FailOn = 'warnings' | 'undefined-refs' | 'overfull';
+
+export const FAIL_ON: readonly FailOn[] = ['warnings', 'undefined-refs', 'overfull'];
+
+export interface CompileReport {
+  project: string;
+  /** Compile status as returned by Overleaf. */
+  status: string;
+  entries: ReportEntry[];
+}
+
+/**
+ * Parse a `--fail-on` value: a comma-separated list of FAIL_ON names.
+ */
+export function parseFailOn(value: string): FailOn[] {
+  const kinds = value.split(',').map((v) => v.trim()).filter(Boolean);
+  for (const kind of kinds) {
+    if (!FAIL_ON.includes(kind as FailOn)) {
+      throw new Error(`Invalid --fail-on: ${kind} (expected ${FAIL_ON.join(', ')})`);
+    }
+  }
+  return kinds as FailOn[];
+}
+
+/**
+ * True when `entry` counts as a failure under `failOn`.
+ */
+export function isFailure(entry: LogEntry, failOn: readonly FailOn[]): boolean {
+  if (entry.level === 'error') return true;
+  if (failOn.includes('warnings') && entry.level === 'warning') return true;
+  if (failOn.includes('undefined-refs') &&
+    (entry.kind === 'undefined-reference' || entry.kind === 'undefined-citation')) return true;
+  if (failOn.includes('overfull') && entry.kind === 'overfull') return true;
+  return false;
+}
+
+/**
+ * A compile fails when Overleaf reports anything but success (the PDF, if
+ * any, is then stale) or when an entry counts as a failure.
+ */
+export function compileFailed(report: CompileReport, failOn: readonly FailOn[]): boolean {
+  return report.status !== 'success' || report.entries.some((e) => isFailure(e, failOn));
+}
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+/**
+ * JUnit XML: a `compile` test case for the compile status plus one test
+ * case per log entry, failing when the entry counts as a failure.
+ */
+export function toJUnit(report: CompileReport, failOn: readonly FailOn[]): string {
+  const cases: string[] = [];
+  let failures = 0;
+
+  const compileOk = report.status === 'success';
+  if (!compileOk) failures++;
+  cases.push(compileOk
+    ? '    <testcase classname="compile" name="compile"/>'
+    : `    <testcase classname="compile" name="compile">\n      <failure type="compile" message="Compilation ${xmlEscape(report.status)}"/>\n    </testcase>`);
+
+  for (const entry of report.entries) {
+    const file = entry.localFile ?? entry.file ?? 'log';
+    const name = `${entry.line !== undefined ? `line ${entry.line}: ` : ''}${entry.message}`;
+    const open = `    <testcase classname="${xmlEscape(file)}" name="${xmlEscape(name)}"`;
+    if (isFailure(entry, failOn)) {
+      failures++;
+      const body = entry.content ? xmlEscape(entry.content) : '';
+      cases.push(`${open}>\n      <failure type="${entry.kind}" message="${xmlEscape(entry.message)}">${body}</failure>\n    </testcase>`);
+    } else {
+      cases.push(`${open}>\n      <system-out>${entry.level}: ${xmlEscape(entry.message)}</system-out>\n    </testcase>`);
+    }
+  }
+
+  const suite = `olcli compile: ${report.project}`;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="olcli" tests="${cases.length}" failures="${failures}">`,
+    `  <testsuite name="${xmlEscape(suite)}" tests="${cases.length}" failures="${failures}" errors="0" skipped="0">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+function escapeData(text: string): string {
+  return text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function escapeProperty(text: string): string {
+  return escapeData(text).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
+
+/**
+ * GitHub Actions workflow commands (`::error file=...,line=...::message`),
+ * one line per entry. Entries that count as failures are errors; other
+ * warnings stay warnings and bad boxes become notices.
+ */
+export function toGitHubAnnotations(report: CompileReport, failOn: readonly FailOn[]): string[] {
+  const lines: string[] = [];
+  if (report.status !== 'success') {
+    lines.push(`::error title=${escapeProperty('LaTeX compile')}::${escapeData(`Compilation ${report.status} (${report.project})`)}`);
+  }
+  for (const entry of report.entries) {
+    const command = isFailure(entry, failOn) ? 'error' : entry.level === 'typesetting' ? 'notice' : 'warning';
+    const props: string[] = [];
+    const file = entry.localFile ?? entry.file;
+    if (file && !file.startsWith('/')) {
+      props.push(`file=${escapeProperty(file)}`);
+      if (entry.line !== undefined) props.push(`line=${entry.line}`);
+    }
+    props.push(`title=${escapeProperty(`LaTeX ${entry.kind}`)}`);
+    lines.push(`::${command} ${props.join(',')}::${escapeData(entry.message)}`);
+  }
+  return lines;
+}
+
+/**
+ * SARIF 2.1.0 log with one result per entry; rule ids are the entry kinds.
+ */
+export function toSarif(report: CompileReport, failOn: readonly FailOn[], toolVersion: string): string {
+  const kinds = Array.from(new Set(report.entries.map((e) => e.kind)));
+  const results = report.entries.map((entry) => {
+    const file = entry.localFile ?? entry.file;
+    return {
+      ruleId: entry.kind,
+      level: isFailure(entry, failOn) ? 'error' : entry.level === 'typesetting' ? 'note' : 'warning',
+      message: { text: entry.message },
+      ...(file ? {
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: file.replace(/\\/g, '/') },
+            ...(entry.line !== undefined ? { region: { startLine: entry.line } } : {}),
+          },
+        }],
+      } : {}),
+    };
+  });
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'olcli',
+          version: toolVersion,
+          informationUri: 'https://github.com/aloth/olcli',
+          rules: kinds.map((id) => ({ id, shortDescription: { text: `LaTeX ${id}` } })),
+        },
+      },
+      invocations: [{ executionSuccessful: report.status === 'success' }],
+      results,
+    }],
+  };
+  return JSON.stringify(sarif, null, 2) + '\n';
+}
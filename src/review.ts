@@ -0,0 +1,273 @@
+/**
+ * Review comments and tracked changes for olcli
+ *
+ * Overleaf keeps comment threads (messages, resolved state) apart from
+ * their anchors: every doc stores the ranges of text its threads highlight,
+ * and, with track changes on, the ranges of pending insertions and
+ * deletions. The helpers here join threads with their anchors and turn the
+ * character offsets of ranges into line numbers, so a thread or change can
+ * be shown as `file:line: ...` like a compiler message.
+ *
+ * The doc text has pending insertions applied and pending deletions removed;
+ * a deletion is recorded as the deleted text at the offset it was cut from.
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { CommentMessage, CommentThread, DocRanges, FolderEntry, ProjectUser, TrackedChange } from './client.js';
+
+/** Length of the id suffix shown to users */
+export const SHORT_ID_LENGTH = 8;
+
+export interface ReviewComment {
+  threadId: string;
+  docId: string;
+  /** Project path of the doc the thread is anchored in */
+  file?: string;
+  line?: number;
+  /** The highlighted text */
+  quote: string;
+  resolved: boolean;
+  resolvedAt?: string;
+  resolvedBy?: ProjectUser;
+  messages: CommentMessage[];
+}
+
+export interface ReviewChange extends TrackedChange {
+  docId: string;
+  file?: string;
+  line?: number;
+  author?: ProjectUser;
+  /** Text of the surrounding line(s) before and after the change */
+  context?: { before: string; after: string };
+}
+
+/**
+ * Ids Overleaf creates in one editor session share their start (a seed
+ * plus a counter), so ids are shown and matched by their end.
+ */
+export function shortId(id: string): string {
+  return id.slice(-SHORT_ID_LENGTH);
+}
+
+function matchesId(id: string, arg: string): boolean {
+  return id === arg || (arg.length >= 4 && id.endsWith(arg));
+}
+
+/**
+ * Map doc ids to project paths by walking the project tree.
+ */
+export function docPaths(root: FolderEntry | undefined): Map<string, string> {
+  const paths = new Map<string, string>();
+  const walk = (folder: FolderEntry | undefined, prefix: string) => {
+    for (const doc of folder?.docs ?? []) paths.set(doc._id, `${prefix}${doc.name}`);
+    for (const sub of folder?.folders ?? []) walk(sub, `${prefix}${sub.name}/`);
+  };
+  walk(root, '');
+  return paths;
+}
+
+/**
+ * 1-based line number of a character offset in `text`.
+ */
+export function lineAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = text.indexOf('\n'); i !== -1 && i < offset; i = text.indexOf('\n', i + 1)) line++;
+  return line;
+}
+
+/**
+ * Join threads with their anchors. Threads without an anchor (their text
+ * was deleted) are left out, as in the Overleaf review panel. `docs` holds
+ * the path and current text of the docs with anchors.
+ */
+export function joinComments(
+  threads: CommentThread[],
+  ranges: DocRanges[],
+  docs: Map<string, { path?: string; text?: string }>
+): ReviewComment[] {
+  const byId = new Map(threads.map((t) => [t.id, t]));
+  const comments: ReviewComment[] = [];
+
+  for (const doc of ranges) {
+    const { path, text } = docs.get(doc.docId) ?? {};
+    for (const range of doc.comments) {
+      const thread = byId.get(range.threadId);
+      if (!thread || thread.messages.length === 0) continue;
+      comments.push({
+        threadId: thread.id,
+        docId: doc.docId,
+        file: path,
+        line: text !== undefined ? lineAt(text, range.position) : undefined,
+        quote: range.text,
+        resolved: thread.resolved,
+        resolvedAt: thread.resolvedAt,
+        resolvedBy: thread.resolvedBy,
+        messages: thread.messages,
+      });
+    }
+  }
+
+  return comments.sort((a, b) =>
+    (a.file ?? '').localeCompare(b.file ?? '') || (a.line ?? 0) - (b.line ?? 0));
+}
+
+/**
+ * Find a thread by id or the end of its id.
+ */
+export function findThread(comments: ReviewComment[], id: string): ReviewComment {
+  const matches = comments.filter((c) => matchesId(c.threadId, id));
+  const unique = new Set(matches.map((c) => c.threadId));
+  if (unique.size === 0) {
+    throw new Error(`Comment thread not found: ${id}`);
+  }
+  if (unique.size > 1) {
+    throw new Error(`Ambiguous thread id ${id}: matches ${Array.from(unique).join(', ')}`);
+  }
+  return matches[0];
+}
+
+/**
+ * A new thread id in the format Overleaf uses (24 hex digits, starting
+ * with the time like a MongoDB ObjectId).
+ */
+export function newThreadId(): string {
+  const seconds = Math.floor(Date.now() / 1000).toString(16).padStart(8, '0');
+  return seconds + randomBytes(8).toString('hex');
+}
+
+/**
+ * Join the tracked changes of every doc with authors, line numbers and
+ * context. `docs` holds the path and current text of the docs with changes.
+ */
+export function joinChanges(
+  ranges: DocRanges[],
+  docs: Map<string, { path?: string; text?: string }>,
+  users: Map<string, ProjectUser>
+): ReviewChange[] {
+  const changes: ReviewChange[] = [];
+  for (const doc of ranges) {
+    const { path, text } = docs.get(doc.docId) ?? {};
+    for (const change of doc.changes) {
+      changes.push({
+        ...change,
+        docId: doc.docId,
+        file: path,
+        line: text !== undefined ? lineAt(text, change.position) : undefined,
+        author: change.userId ? users.get(change.userId) : undefined,
+        context: text !== undefined ? changeContext(text, change) : undefined,
+      });
+    }
+  }
+  return changes.sort((a, b) => (a.file ?? '').localeCompare(b.file ?? '') || a.position - b.position);
+}
+
+const CONTEXT_CHARS = 40;
+
+/**
+ * The line(s) around a change, whitespace collapsed and cut to
+ * CONTEXT_CHARS on each side.
+ */
+function changeContext(text: string, change: TrackedChange): { before: string; after: string } {
+  const end = change.type === 'insert' ? change.position + change.text.length : change.position;
+  const lineStart = text.lastIndexOf('\n', change.position - 1) + 1;
+  const lineEnd = text.indexOf('\n', end);
+  const collapse = (value: string) => value.replace(/\s+/g, ' ');
+  const before = collapse(text.slice(lineStart, change.position)).trimStart();
+  const after = collapse(text.slice(end, lineEnd === -1 ? text.length : lineEnd)).trimEnd();
+  return {
+    before: before.length > CONTEXT_CHARS ? `…${before.slice(-CONTEXT_CHARS)}` : before,
+    after: after.length > CONTEXT_CHARS ? `${after.slice(0, CONTEXT_CHARS)}…` : after,
+  };
+}
+
+/**
+ * Find changes by id or the end of their id.
+ */
+export function findChanges(changes: ReviewChange[], ids: string[]): ReviewChange[] {
+  return ids.map((id) => {
+    const matches = changes.filter((c) => matchesId(c.id, id));
+    if (matches.length === 0) {
+      throw new Error(`Tracked change not found: ${id}`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Ambiguous change id ${id}: matches ${matches.map((c) => c.id).join(', ')}`);
+    }
+    return matches[0];
+  });
+}
+
+/** Paragraph breaks, which `\added`/`\deleted` arguments cannot span. */
+const PARAGRAPH_BREAK = /(\n[ \t]*\n\s*)/;
+
+/**
+ * Whether `text` can be a command argument without breaking the document:
+ * balanced braces (escaped ones aside), no `%` comment that would swallow
+ * the closing brace, no trailing backslash escaping it, and no environment
+ * that is opened but not closed (or the other way round).
+ */
+function fitsInArgument(text: string): boolean {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\\') {
+      if (i === text.length - 1) return false;
+      i++; // escaped character
+    } else if (ch === '%') {
+      // A comment is harmless when the line ends inside the text
+      const lineEnd = text.indexOf('\n', i);
+      if (lineEnd === -1) return false;
+      i = lineEnd;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}' && --depth < 0) {
+      return false;
+    }
+  }
+  const begins = text.match(/\\begin\s*\{/g)?.length ?? 0;
+  const ends = text.match(/\\end\s*\{/g)?.length ?? 0;
+  return depth === 0 && begins === ends;
+}
+
+/**
+ * Wrap `text` in a `changes` package command, one per paragraph, since
+ * `\added`/`\deleted` cannot span a paragraph break. Undefined when a
+ * paragraph can't be wrapped (see fitsInArgument()).
+ */
+function markup(command: string, text: string): string | undefined {
+  const parts = text.split(PARAGRAPH_BREAK);
+  if (parts.some((part, i) => i % 2 === 0 && !fitsInArgument(part))) return undefined;
+  return parts
+    .map((part, i) => (i % 2 === 1 || part === '' ? part : `\\${command}{${part}}`))
+    .join('');
+}
+
+/**
+ * Render pending changes into the doc text as `\added{...}` and
+ * `\deleted{...}` (LaTeX `changes` package). Changes whose text would not
+ * compile inside a command argument (unbalanced braces, a `%` comment, half
+ * an environment) are left out: insertions stay as plain text, deletions
+ * stay deleted. They are returned as `skipped`.
+ */
+export function trackChangesMarkup(
+  text: string,
+  changes: TrackedChange[]
+): { text: string; skipped: TrackedChange[] } {
+  // Back to front so offsets stay valid; at the same offset the insertion
+  // is wrapped first and the deletion goes in front of it
+  const ordered = [...changes].sort((a, b) =>
+    b.position - a.position || (a.type === b.type ? 0 : a.type === 'insert' ? -1 : 1));
+  const skipped: TrackedChange[] = [];
+  let result = text;
+  for (const change of ordered) {
+    const end = change.type === 'insert' ? change.position + change.text.length : change.position;
+    const wrapped = change.type === 'insert'
+      ? markup('added', result.slice(change.position, end))
+      : markup('deleted', change.text);
+    if (wrapped === undefined) {
+      skipped.push(change);
+      continue;
+    }
+    result = result.slice(0, change.position) + wrapped + result.slice(end);
+  }
+  return { text: result, skipped: skipped.reverse() };
+}
@@ -0,0 +1,120 @@
+/**
+ * olcli status — per-file sync state
+ *
+ * Classifies every path of a synced directory by comparing three views:
+ *
+ *   - what was in sync at the last pull/push/sync (`.olcli.json`)
+ *   - the working tree (after ignore filtering)
+ *   - the remote project (a fresh download, compared by content hash so the
+ *     result never depends on local or server clocks)
+ *
+ * Directories synced by older olcli versions have no content hashes; local
+ * changes are then detected by mtime against `lastPull`, and remote changes
+ * against the base snapshot when one exists.
+ */
+
+import { isChanged, hasHashManifest, type ProjectMeta } from './manifest.js';
+import { hasConflictMarkers } from './merge.js';
+
+export type FileStatus =
+  | 'unchanged'
+  | 'modified-locally'
+  | 'modified-remotely'
+  | 'both-modified'
+  | 'new-locally'
+  | 'new-remotely'
+  | 'deleted-locally'
+  | 'deleted-remotely'
+  | 'ignored';
+
+export interface StatusEntry {
+  path: string;
+  status: FileStatus;
+}
+
+export interface StatusInput {
+  meta: ProjectMeta;
+  /** Current remote contents by path. */
+  remoteContent: Map<string, Buffer>;
+  /** Working tree files that survive ignore filtering. */
+  local: Map<string, { content: Buffer; mtime: Date }>;
+  /** Working tree paths skipped by ignore rules. */
+  ignored: string[];
+  /** Base snapshot lookup (see base.ts). */
+  readBase: (path: string) => Buffer | undefined;
+}
+
+/** Statuses that mean local and remote disagree. */
+export const OUT_OF_SYNC: ReadonlySet<FileStatus> = new Set<FileStatus>([
+  'modified-locally',
+  'modified-remotely',
+  'both-modified',
+  'new-locally',
+  'new-remotely',
+  'deleted-locally',
+  'deleted-remotely',
+]);
+
+/**
+ * Classify every known path. Entries are sorted by path.
+ */
+export function computeStatus(input: StatusInput): StatusEntry[] {
+  const { meta, remoteContent, local } = input;
+  const useHashes = hasHashManifest(meta);
+  const lastPull = meta.lastPull ? new Date(meta.lastPull) : undefined;
+  const remote = new Set(remoteContent.keys());
+  const ignored = new Set(input.ignored);
+  // Older metadata without a manifest cannot tell deletions from additions
+  const tracked = meta.remoteManifest || meta.remoteFiles
+    ? new Set([...(meta.remoteManifest ?? []), ...Object.keys(meta.remoteFiles ?? {})])
+    : undefined;
+
+  const entries: StatusEntry[] = [];
+  const paths = new Set([...remote, ...local.keys(), ...ignored, ...(tracked ?? [])]);
+
+  for (const path of Array.from(paths).sort()) {
+    if (ignored.has(path)) {
+      entries.push({ path, status: 'ignored' });
+      continue;
+    }
+
+    const localFile = local.get(path);
+    const wasTracked = tracked ? tracked.has(path) : remote.has(path) && !!localFile;
+
+    if (!localFile && !remote.has(path)) continue; // gone on both sides
+    if (!localFile) {
+      entries.push({ path, status: wasTracked ? 'deleted-locally' : 'new-remotely' });
+      continue;
+    }
+    if (!remote.has(path)) {
+      entries.push({ path, status: wasTracked ? 'deleted-remotely' : 'new-locally' });
+      continue;
+    }
+
+    const remoteFile = remoteContent.get(path)!;
+    if (remoteFile.equals(localFile.content)) {
+      entries.push({ path, status: 'unchanged' });
+      continue;
+    }
+
+    const localChanged = hasConflictMarkers(localFile.content) || (useHashes
+      ? isChanged(meta.localFiles![path], localFile.content)
+      : lastPull === undefined || localFile.mtime > lastPull);
+
+    const recorded = meta.remoteFiles?.[path];
+    const base = input.readBase(path);
+    const remoteChanged = recorded
+      ? isChanged(recorded, remoteFile)
+      : base
+        ? !base.equals(remoteFile)
+        : !localChanged;
+
+    let status: FileStatus = 'unchanged';
+    if (localChanged && remoteChanged) status = 'both-modified';
+    else if (localChanged) status = 'modified-locally';
+    else if (remoteChanged) status = 'modified-remotely';
+    entries.push({ path, status });
+  }
+
+  return entries;
+}
@@ -0,0 +1,74 @@
+/**
+ * Minimal tar.gz writer (POSIX ustar) for olcli bundles
+ *
+ * Writes regular files only; directories are implied by the paths, which
+ * every tar implementation accepts. Paths longer than 100 bytes are split
+ * into the ustar prefix/name fields.
+ */
+
+import { gzipSync } from 'node:zlib';
+
+const BLOCK = 512;
+
+export interface TarEntry {
+  path: string;
+  content: Buffer;
+}
+
+function writeString(header: Buffer, offset: number, length: number, value: string): void {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf-8');
+}
+
+function writeOctal(header: Buffer, offset: number, length: number, value: number): void {
+  // length - 1 digits followed by a NUL
+  writeString(header, offset, length, value.toString(8).padStart(length - 1, '0') + '\0');
+}
+
+/**
+ * Split a path into ustar prefix (≤155 bytes) and name (≤100 bytes).
+ */
+function splitPath(path: string): { prefix: string; name: string } {
+  if (Buffer.byteLength(path) <= 100) return { prefix: '', name: path };
+  for (let i = path.indexOf('/'); i !== -1; i = path.indexOf('/', i + 1)) {
+    const prefix = path.slice(0, i);
+    const name = path.slice(i + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) return { prefix, name };
+  }
+  throw new Error(`Path too long for tar: ${path}`);
+}
+
+function header(entry: TarEntry, mtime: number): Buffer {
+  const buf = Buffer.alloc(BLOCK);
+  const { prefix, name } = splitPath(entry.path);
+  writeString(buf, 0, 100, name);
+  writeOctal(buf, 100, 8, 0o644);
+  writeOctal(buf, 108, 8, 0);
+  writeOctal(buf, 116, 8, 0);
+  writeOctal(buf, 124, 12, entry.content.length);
+  writeOctal(buf, 136, 12, mtime);
+  buf.fill(' ', 148, 156); // checksum is computed with spaces here
+  writeString(buf, 156, 1, '0');
+  writeString(buf, 257, 6, 'ustar\0');
+  writeString(buf, 263, 2, '00');
+  writeString(buf, 345, 155, prefix);
+
+  let sum = 0;
+  for (const byte of buf) sum += byte;
+  writeString(buf, 148, 8, sum.toString(8).padStart(6, '0') + '\0 ');
+  return buf;
+}
+
+/**
+ * Build a gzip-compressed tar archive of `entries`.
+ */
+export function createTarGz(entries: TarEntry[], mtime: Date = new Date()): Buffer {
+  const seconds = Math.floor(mtime.getTime() / 1000);
+  const chunks: Buffer[] = [];
+  for (const entry of entries) {
+    chunks.push(header(entry, seconds), entry.content);
+    const padding = (BLOCK - (entry.content.length % BLOCK)) % BLOCK;
+    if (padding > 0) chunks.push(Buffer.alloc(padding));
+  }
+  chunks.push(Buffer.alloc(BLOCK * 2));
+  return gzipSync(Buffer.concat(chunks));
+}
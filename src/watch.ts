@@ -0,0 +1,416 @@
+/**
+ * olcli watch — continuous bidirectional sync
+ *
+ * Watches the working tree with `fs.watch` and uploads edits after a short
+ * debounce, and polls the remote project on an interval to pull (or merge)
+ * collaborator changes. State lives in `.olcli.json` and `.olcli/base/`
+ * exactly as for `sync`, so `watch` and `sync` can be used interchangeably
+ * on the same directory.
+ *
+ * All remote operations run through a single queue: a push never races a
+ * poll, and a slow compile simply delays the next poll. Every push is
+ * preceded by a poll so concurrent remote edits get merged, not clobbered.
+ *
+ * Files the watcher writes itself (pulled or merged content, the compiled
+ * PDF) are remembered by hash, so their change events don't queue another
+ * poll and push.
+ */
+
+import { watch, existsSync, readFileSync, readdirSync, statSync, writeFileSync, mkdirSync, rmSync, type FSWatcher } from 'node:fs';
+import { dirname, join, relative, resolve } from 'node:path';
+import type { CompileOptions, OverleafClient } from './client.js';
+import { shouldIgnore, buildTexSiblingSet, listProjectFiles, type IgnoreContext } from './ignore.js';
+import { readBase, writeBase, removeBase } from './base.js';
+import { reconcileFile, hasConflictMarkers } from './merge.js';
+import { DocWriter } from './realtime.js';
+import {
+  readProjectMeta,
+  writeProjectMeta,
+  isChanged,
+  fileState,
+  hashContent,
+  type ProjectMeta,
+} from './manifest.js';
+
+export interface WatchOptions {
+  /** Project working tree (must contain a hash-manifest .olcli.json). */
+  dir: string;
+  /** Remote poll interval. */
+  intervalMs: number;
+  /** Quiet period after the last local edit before uploading. */
+  debounceMs: number;
+  /** Propagate deletions in both directions. */
+  propagateDeletes: boolean;
+  /** Edit existing docs over the collaboration socket instead of re-uploading. */
+  realtime: boolean;
+  ignore: IgnoreContext;
+  /** When set, compile after every push and write the PDF here. */
+  compileOutput?: string;
+  compileOptions?: CompileOptions;
+}
+
+export type WatchEventKind =
+  | 'push'
+  | 'pull'
+  | 'merge'
+  | 'conflict'
+  | 'markup'
+  | 'delete-remote'
+  | 'delete-local'
+  | 'compile'
+  | 'error';
+
+export interface WatchEvent {
+  kind: WatchEventKind;
+  path?: string;
+  message?: string;
+}
+
+export interface WatchHandle {
+  /** Stop watching and wait for in-flight operations to finish. */
+  stop(): Promise<void>;
+}
+
+/**
+ * Decide whether a working-tree path is excluded from watching: hidden
+ * paths (including .olcli/ and .olcli.json), ignored directories on the
+ * way down, and ignored files.
+ */
+function isExcluded(root: string, relativePath: string, ctx: IgnoreContext): boolean {
+  const segments = relativePath.split('/');
+  if (segments.some((s) => s.startsWith('.'))) return true;
+  for (let i = 1; i < segments.length; i++) {
+    if (shouldIgnore(`${segments.slice(0, i).join('/')}/`, ctx)) return true;
+  }
+  const folder = dirname(join(root, relativePath));
+  let siblings: Set<string> | undefined;
+  try {
+    siblings = buildTexSiblingSet(readdirSync(folder));
+  } catch {
+    siblings = undefined;
+  }
+  return shouldIgnore(relativePath, ctx, siblings);
+}
+
+/**
+ * Watch a directory tree, reporting changed paths relative to `root`.
+ * Recursive `fs.watch` is only available on Linux from Node 20; on older
+ * versions every (non-hidden) folder gets its own watcher, and folders that
+ * appear later are picked up as their creation is reported.
+ */
+function watchTree(root: string, onChange: (path: string) => void): { close(): void } {
+  try {
+    const watcher = watch(root, { recursive: true }, (_event, filename) => {
+      if (filename) onChange(filename.toString().replace(/\\/g, '/'));
+    });
+    return { close: () => watcher.close() };
+  } catch (error: any) {
+    if (error.code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') throw error;
+  }
+
+  const watchers = new Map<string, FSWatcher>();
+  const remove = (folder: string) => {
+    for (const [path, watcher] of watchers) {
+      if (path === folder || path.startsWith(`${folder}/`)) {
+        watcher.close();
+        watchers.delete(path);
+      }
+    }
+  };
+  const add = (folder: string) => {
+    if (watchers.has(folder) || folder.split('/').some((s) => s.startsWith('.'))) return;
+    let watcher: FSWatcher;
+    let entries: string[];
+    try {
+      if (!statSync(join(root, folder)).isDirectory()) return;
+      watcher = watch(join(root, folder), (_event, filename) => {
+        if (!filename) return;
+        // The folder itself was removed (reported by its parent as well)
+        if (folder && !existsSync(join(root, folder))) return remove(folder);
+        const path = folder ? `${folder}/${filename}` : filename.toString();
+        if (existsSync(join(root, path))) add(path);
+        else remove(path);
+        onChange(path);
+      });
+      entries = readdirSync(join(root, folder), { withFileTypes: true })
+        .filter((e) => e.isDirectory())
+        .map((e) => (folder ? `${folder}/${e.name}` : e.name));
+    } catch {
+      // Gone again before we got to look
+      return;
+    }
+    watcher.on('error', () => remove(folder));
+    watchers.set(folder, watcher);
+    for (const entry of entries) add(entry);
+  };
+  add('');
+
+  return {
+    close() {
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+    },
+  };
+}
+
+/**
+ * Start watching `opts.dir`. Events are reported through `onEvent`.
+ */
+export function watchProject(
+  client: OverleafClient,
+  opts: WatchOptions,
+  onEvent: (event: WatchEvent) => void
+): WatchHandle {
+  const root = opts.dir;
+  const meta: ProjectMeta = readProjectMeta(root)!;
+  const localStates = meta.localFiles!;
+  const remoteStates = meta.remoteFiles!;
+  // Markup from pull --with-track-changes stays local until a plain pull
+  const markupPaths = new Set(meta.trackChangesMarkup ?? []);
+  const dropMarkup = (path: string) => {
+    if (!markupPaths.delete(path)) return;
+    meta.trackChangesMarkup = markupPaths.size > 0 ? Array.from(markupPaths) : undefined;
+  };
+  const compileOutput = opts.compileOutput ? resolve(opts.compileOutput) : undefined;
+  let folderTree: Record<string, string> | null = null;
+
+  let chain: Promise<void> = Promise.resolve();
+  const enqueue = (task: () => Promise<void>): void => {
+    chain = chain.then(task).catch((error: any) => {
+      onEvent({ kind: 'error', message: error.message || String(error) });
+    });
+  };
+
+  const saveMeta = () => {
+    meta.remoteManifest = Object.keys(remoteStates).sort();
+    writeProjectMeta(root, meta);
+  };
+
+  // One collaboration session for the whole watch, reopened if it drops
+  const writer = new DocWriter(() => client.openRealtimeSession(meta.projectId), { realtime: opts.realtime });
+
+  const upload = async (path: string, content: Buffer) => {
+    await writer.write(path, content, async () => {
+      if (!folderTree) {
+        folderTree = await client.getFolderTreeFromSocket(meta.projectId)
+          ?? { '': await client.getRootFolderId(meta.projectId) };
+      }
+      return client.uploadFile(meta.projectId, meta.rootFolderId || null, path, content, folderTree);
+    });
+  };
+
+  // Paths written or removed by the watcher itself: content hash, or null
+  // for a deletion. Cleared once the path is seen with other content.
+  const ownWrites = new Map<string, string | null>();
+
+  const writeLocal = (path: string, content: Buffer) => {
+    const filePath = join(root, path);
+    mkdirSync(dirname(filePath), { recursive: true });
+    ownWrites.set(path, hashContent(content));
+    writeFileSync(filePath, content);
+  };
+
+  const removeLocal = (path: string) => {
+    ownWrites.set(path, null);
+    rmSync(join(root, path), { force: true });
+  };
+
+  /** True when `path` still holds exactly what the watcher last wrote there. */
+  const isOwnWrite = (path: string): boolean => {
+    if (!ownWrites.has(path)) return false;
+    const expected = ownWrites.get(path);
+    const filePath = join(root, path);
+    let actual: string | null = null;
+    try {
+      if (existsSync(filePath)) {
+        if (statSync(filePath).isDirectory()) return false;
+        actual = hashContent(readFileSync(filePath));
+      }
+    } catch {
+      return false;
+    }
+    if (actual === expected) return true;
+    ownWrites.delete(path);
+    return false;
+  };
+
+  const compile = async () => {
+    if (!compileOutput) return;
+    const result = await client.compileWithOutputs(meta.projectId, opts.compileOptions);
+    if (result.pdfUrl) {
+      writeFileSync(compileOutput, await client.downloadOutputFile(result.pdfUrl));
+    }
+    onEvent({ kind: 'compile', message: result.status });
+  };
+
+  /**
+   * Upload (or delete remotely) every given path whose content differs from
+   * the state recorded at the last sync.
+   */
+  const pushPaths = async (paths: string[]) => {
+    let pushed = 0;
+    for (const path of paths) {
+      const filePath = join(root, path);
+      if (compileOutput && resolve(filePath) === compileOutput) continue;
+
+      if (existsSync(filePath) && statSync(filePath).isFile()) {
+        if (isExcluded(root, path, opts.ignore)) continue;
+        const content = readFileSync(filePath);
+        if (!isChanged(localStates[path], content)) continue;
+        if (hasConflictMarkers(content)) {
+          onEvent({ kind: 'conflict', path });
+          continue;
+        }
+        if (markupPaths.has(path)) {
+          onEvent({ kind: 'markup', path });
+          continue;
+        }
+        await upload(path, content);
+        localStates[path] = remoteStates[path] = fileState(content);
+        writeBase(root, path, content);
+        pushed++;
+        onEvent({ kind: 'push', path });
+      } else if (!existsSync(filePath) && localStates[path]) {
+        delete localStates[path];
+        dropMarkup(path);
+        if (opts.propagateDeletes && remoteStates[path]) {
+          try {
+            await client.deleteByPath(meta.projectId, path);
+          } catch (error: any) {
+            // Already gone on the remote is fine; anything else is reported
+            if (!/not found/i.test(error.message)) throw error;
+          }
+          delete remoteStates[path];
+          removeBase(root, path);
+          onEvent({ kind: 'delete-remote', path });
+        }
+      }
+    }
+    if (pushed > 0) meta.lastPush = new Date().toISOString();
+    saveMeta();
+    if (pushed > 0) await compile();
+  };
+
+  /**
+   * Download the project and bring every remotely changed file in sync.
+   */
+  const poll = async () => {
+    const zipBuffer = await client.downloadProject(meta.projectId);
+    const AdmZip = (await import('adm-zip')).default;
+    const zip = new AdmZip(zipBuffer);
+
+    const remotePaths = new Set<string>();
+    let pushed = 0;
+
+    for (const entry of zip.getEntries()) {
+      if (entry.isDirectory) continue;
+      const path = entry.entryName;
+      const remote = entry.getData();
+      remotePaths.add(path);
+      if (remoteStates[path] && !isChanged(remoteStates[path], remote)) continue;
+      if (markupPaths.has(path)) {
+        if (existsSync(join(root, path))) continue;
+        dropMarkup(path);
+      }
+
+      const filePath = join(root, path);
+      const local = existsSync(filePath) ? readFileSync(filePath) : undefined;
+      const result = reconcileFile({
+        local,
+        remote,
+        base: readBase(root, path),
+        localChanged: local !== undefined && isChanged(localStates[path], local),
+        remoteChanged: true,
+      });
+
+      if (!local || !local.equals(result.working)) writeLocal(path, result.working);
+      if (result.action === 'merged' || result.action === 'overwrite' || result.action === 'push') {
+        await upload(path, result.working);
+        pushed++;
+      }
+      // A conflicted file stays "modified locally" until its markers are resolved
+      if (result.action === 'conflict') delete localStates[path];
+      else localStates[path] = fileState(result.working);
+      remoteStates[path] = fileState(result.agreed);
+      writeBase(root, path, result.agreed);
+
+      if (result.action === 'pull') onEvent({ kind: 'pull', path });
+      else if (result.action === 'merged') onEvent({ kind: 'merge', path });
+      else if (result.action === 'conflict') onEvent({ kind: 'conflict', path });
+      else if (result.action !== 'unchanged') onEvent({ kind: 'push', path });
+    }
+
+    // Files that disappeared from the remote
+    for (const path of Object.keys(remoteStates)) {
+      if (remotePaths.has(path)) continue;
+      delete remoteStates[path];
+      removeBase(root, path);
+      const filePath = join(root, path);
+      if (!existsSync(filePath)) {
+        delete localStates[path];
+        continue;
+      }
+      if (opts.propagateDeletes && !isChanged(localStates[path], readFileSync(filePath))) {
+        removeLocal(path);
+        delete localStates[path];
+        onEvent({ kind: 'delete-local', path });
+      }
+    }
+
+    meta.lastPull = meta.lastSync = new Date().toISOString();
+    saveMeta();
+    if (pushed > 0) await compile();
+  };
+
+  // Local edits: collect paths, push once the tree has been quiet for a while
+  const pending = new Set<string>();
+  let debounceTimer: NodeJS.Timeout | undefined;
+  const flush = () => {
+    const paths = Array.from(pending);
+    pending.clear();
+    // Poll first so a collaborator edit made since the last poll is merged
+    // rather than overwritten by the upload.
+    enqueue(async () => {
+      await poll();
+      await pushPaths(paths);
+    });
+  };
+
+  const watcher = watchTree(root, (path) => {
+    if (path.split('/').some((s) => s.startsWith('.'))) return;
+    const filePath = join(root, path);
+    if (compileOutput && resolve(filePath) === compileOutput) return;
+    // A directory appeared (copied or moved in): queue its contents
+    let paths = [path];
+    try {
+      if (existsSync(filePath) && statSync(filePath).isDirectory()) {
+        paths = listProjectFiles(root, opts.ignore, { base: relative(root, filePath).replace(/\\/g, '/') });
+      }
+    } catch {
+      // Gone again before we got to look (editor swap files, temp files)
+    }
+    const changed = paths.filter((p) => !isOwnWrite(p));
+    if (changed.length === 0) return;
+    for (const p of changed) pending.add(p);
+    if (debounceTimer) clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(flush, opts.debounceMs);
+  });
+
+  // Catch up on the remote, then on edits made while not watching
+  enqueue(poll);
+  enqueue(() => pushPaths(Array.from(new Set([...listProjectFiles(root, opts.ignore), ...Object.keys(localStates)]))));
+  const pollTimer = setInterval(() => enqueue(poll), opts.intervalMs);
+
+  return {
+    async stop() {
+      watcher.close();
+      clearInterval(pollTimer);
+      if (debounceTimer) {
+        clearTimeout(debounceTimer);
+        if (pending.size > 0) flush();
+      }
+      await chain;
+      await writer.close();
+    },
+  };
+}
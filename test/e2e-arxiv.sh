@@ -0,0 +1,106 @@
+#!/bin/bash
+# Offline test for the arXiv bundle behind `olcli arxiv` (src/arxiv.ts, src/tar.ts).
+# Builds a bundle from a small project on disk, writes the tarball and
+# inspects it with the system tar. Needs no Overleaf connection.
+set -e
+
+ROOT="$(cd "$(dirname "$0")/.." && pwd)"
+TEST_DIR=$(mktemp -d)
+PASSED=0
+FAILED=0
+
+cleanup() { rm -rf "$TEST_DIR"; }
+trap cleanup EXIT
+
+GREEN='\033[0;32m'; RED='\033[0;31m'; BLUE='\033[0;34m'; YELLOW='\033[1;33m'; NC='\033[0m'
+
+ok()   { echo -e "${GREEN}✓${NC} $1"; PASSED=$((PASSED+1)); }
+fail() { echo -e "${RED}✗${NC} $1"; FAILED=$((FAILED+1)); }
+sec()  { echo -e "\n${BLUE}── $1 ──${NC}"; }
+info() { echo -e "${YELLOW}  → $1${NC}"; }
+
+# Bundle project dir $1 into tarball $2 (extra options as JSON in $3);
+# prints removed files and issues, one per line
+bundle() {
+  (cd "$ROOT" && npx tsx -e "
+    import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+    import { join, relative } from 'node:path';
+    import { buildArxivBundle } from './src/arxiv.ts';
+    import { createTarGz } from './src/tar.ts';
+    const walk = (dir) => readdirSync(dir, { withFileTypes: true }).flatMap((e) =>
+      e.isDirectory() ? walk(join(dir, e.name)) : [join(dir, e.name)]);
+    const files = walk('$1').map((p) => ({ path: relative('$1', p), content: readFileSync(p) }));
+    const result = buildArxivBundle(files, { main: 'main.tex', bbl: Buffer.from('BBL'), ...${3:-{\}} });
+    writeFileSync('$2', createTarGz(result.files));
+    for (const r of result.removed) console.log('removed ' + r.path + ' (' + r.reason + ')');
+    for (const i of result.issues) console.log(i.level + ' ' + i.message);
+  ")
+}
+
+PROJ="$TEST_DIR/project"
+mkdir -p "$PROJ/figs" "$PROJ/img" "$PROJ/sections" "$PROJ/a_rather_long_folder_name_to_exceed_the_ustar_name_field/and_another_nested_folder_below_it"
+
+cat > "$PROJ/main.tex" <<'EOF'
+\documentclass{article}
+\usepackage{graphicx}
+\graphicspath{{figs/}{img/}}
+\begin{document}
+\input{sections/intro} % the introduction
+\includegraphics[width=\linewidth]{plot}
+% \includegraphics{old-plot}
+\includegraphics{./img/logo.png}
+\includegraphics{a_rather_long_folder_name_to_exceed_the_ustar_name_field/and_another_nested_folder_below_it/deep-figure.pdf}
+\bibliography{refs}
+\end{document}
+EOF
+printf 'Intro mentions plotting but \\includegraphics{diagram}.\n' > "$PROJ/sections/intro.tex"
+printf '@misc{x, title={X}}\n' > "$PROJ/refs.bib"
+for f in figs/plot.pdf figs/old-plot.pdf figs/plotting.pdf img/logo.png img/diagram.eps \
+  a_rather_long_folder_name_to_exceed_the_ustar_name_field/and_another_nested_folder_below_it/deep-figure.pdf; do
+  printf 'figure %s\n' "$f" > "$PROJ/$f"
+done
+printf 'aux\n' > "$PROJ/main.aux"
+
+# ─────────────────────────────────────────────────────────────────────
+sec "1. unreferenced figures are found by exact path"
+# ─────────────────────────────────────────────────────────────────────
+
+OUT=$(bundle "$PROJ" "$TEST_DIR/out.tar.gz")
+echo "$OUT" | grep -qxF 'removed figs/old-plot.pdf (unreferenced)' && ok "commented-out figure removed" || fail "old-plot.pdf kept: $OUT"
+echo "$OUT" | grep -qxF 'removed figs/plotting.pdf (unreferenced)' && ok "figure named in prose only removed" || fail "plotting.pdf kept: $OUT"
+echo "$OUT" | grep -qxF 'removed main.aux (ignored)' && ok "build artifact removed" || fail "main.aux kept: $OUT"
+echo "$OUT" | grep -q 'removed figs/plot.pdf\|removed img/' && fail "referenced figure removed: $OUT" || ok "referenced figures kept"
+
+# ─────────────────────────────────────────────────────────────────────
+sec "2. tarball contents"
+# ─────────────────────────────────────────────────────────────────────
+
+LISTING=$(tar -tzf "$TEST_DIR/out.tar.gz") && ok "tar can list the archive" || fail "tar cannot read the archive"
+for f in main.tex main.bbl sections/intro.tex refs.bib figs/plot.pdf img/logo.png img/diagram.eps \
+  a_rather_long_folder_name_to_exceed_the_ustar_name_field/and_another_nested_folder_below_it/deep-figure.pdf; do
+  echo "$LISTING" | grep -qxF "$f" && ok "contains $f" || fail "missing $f"
+done
+[ "$(echo "$LISTING" | wc -l)" -eq 8 ] && ok "nothing else in the archive" || fail "unexpected entries: $LISTING"
+
+mkdir -p "$TEST_DIR/extract"
+tar -xzf "$TEST_DIR/out.tar.gz" -C "$TEST_DIR/extract"
+[ "$(cat "$TEST_DIR/extract/main.bbl")" = "BBL" ] && ok ".bbl content" || fail ".bbl content"
+cmp -s "$PROJ/img/diagram.eps" "$TEST_DIR/extract/img/diagram.eps" && ok "figure content unchanged" || fail "figure content differs"
+grep -q 'old-plot\|the introduction' "$TEST_DIR/extract/main.tex" && fail "comments not stripped" || ok "comments stripped"
+grep -q '^\\input{sections/intro} %$' "$TEST_DIR/extract/main.tex" && ok "trailing % kept" || fail "trailing % lost"
+
+# ─────────────────────────────────────────────────────────────────────
+sec "3. include paths built from macros"
+# ─────────────────────────────────────────────────────────────────────
+
+printf '\\newcommand{\\fig}[1]{\\includegraphics{figs/#1}}\n\\fig{old-plot}\n' > "$PROJ/sections/intro.tex"
+OUT=$(bundle "$PROJ" "$TEST_DIR/macro.tar.gz")
+echo "$OUT" | grep -q '(unreferenced)' && fail "figures removed despite macro paths: $OUT" || ok "no figure removed"
+echo "$OUT" | grep -q '^warning .*built from macros' && ok "warning reported" || fail "no warning: $OUT"
+
+# ─────────────────────────────────────────────────────────────────────
+echo ""
+echo -e "${BLUE}═══════════════════════════════════════════════${NC}"
+echo -e "  Passed: ${GREEN}$PASSED${NC}    Failed: ${RED}$FAILED${NC}"
+echo -e "${BLUE}═══════════════════════════════════════════════${NC}"
+[ $FAILED -eq 0 ] && exit 0 || exit 1
@@ -0,0 +1,115 @@
+#!/bin/bash
+# Offline test for the LaTeX log parser behind `olcli compile` (src/latex-log.ts).
+# Feeds hand-written logs through parseLatexLog() and checks the entries.
+# Needs no Overleaf connection; run from anywhere inside the repo.
+set -e
+
+ROOT="$(cd "$(dirname "$0")/.." && pwd)"
+TEST_DIR=$(mktemp -d)
+PASSED=0
+FAILED=0
+
+cleanup() { rm -rf "$TEST_DIR"; }
+trap cleanup EXIT
+
+GREEN='\033[0;32m'; RED='\033[0;31m'; BLUE='\033[0;34m'; YELLOW='\033[1;33m'; NC='\033[0m'
+
+ok()   { echo -e "${GREEN}✓${NC} $1"; PASSED=$((PASSED+1)); }
+fail() { echo -e "${RED}✗${NC} $1"; FAILED=$((FAILED+1)); }
+sec()  { echo -e "\n${BLUE}── $1 ──${NC}"; }
+info() { echo -e "${YELLOW}  → $1${NC}"; }
+
+# Print one "<kind> <file:line: level: message>" line per entry of log file $1
+parse() {
+  (cd "$ROOT" && npx tsx -e "
+    import { readFileSync } from 'node:fs';
+    import { parseLatexLog, formatLogEntry } from './src/latex-log.ts';
+    for (const e of parseLatexLog(readFileSync('$1', 'utf-8'))) console.log(e.kind + ' ' + formatLogEntry(e));
+  ")
+}
+
+# ─────────────────────────────────────────────────────────────────────
+sec "1. errors get the file from the stack and the line from l.<n>"
+# ─────────────────────────────────────────────────────────────────────
+
+cat > "$TEST_DIR/error.log" <<'EOF'
+This is pdfTeX, Version 3.141592653-2.6-1.40.25 (TeX Live 2023) (preloaded format=pdflatex)
+(/compile/main.tex
+LaTeX2e <2023-11-01>
+(/usr/local/texlive/2023/texmf-dist/tex/latex/base/article.cls
+Document Class: article 2023/05/17 v1.4n Standard LaTeX document class
+) (./chapters/intro.tex (see the transcript)
+! Undefined control sequence.
+l.7 \foo
+        {bar}
+)
+! Missing $ inserted.
+<inserted text>
+                $
+l.21 a_
+       b
+)
+EOF
+OUT=$(parse "$TEST_DIR/error.log")
+echo "$OUT" | grep -qxF 'error chapters/intro.tex:7: error: Undefined control sequence.' && ok "error in included file" || fail "included file error"
+echo "$OUT" | grep -qxF 'error main.tex:21: error: Missing $ inserted.' && ok "file popped after ), /compile/ prefix dropped" || fail "main file error"
+[ "$(echo "$OUT" | wc -l)" -eq 2 ] && ok "no spurious entries" || fail "unexpected entries"
+
+# ─────────────────────────────────────────────────────────────────────
+sec "2. -file-line-error format"
+# ─────────────────────────────────────────────────────────────────────
+
+cat > "$TEST_DIR/fle.log" <<'EOF'
+(./main.tex
+./sections/method.tex:42: Undefined control sequence.
+l.42 \missing
+
+)
+EOF
+OUT=$(parse "$TEST_DIR/fle.log")
+echo "$OUT" | grep -qxF 'error sections/method.tex:42: error: Undefined control sequence.' && ok "file:line: error parsed" || fail "file-line-error: $OUT"
+
+# ─────────────────────────────────────────────────────────────────────
+sec "3. warnings, undefined references and citations"
+# ─────────────────────────────────────────────────────────────────────
+
+cat > "$TEST_DIR/warn.log" <<'EOF'
+(./main.tex
+LaTeX Warning: Reference `fig:setup' on page 2 undefined on input line 33.
+LaTeX Warning: Citation `knuth84' on page 3 undefined on input line 40.
+Package hyperref Warning: Token not allowed in a PDF string (Unicode):
+(hyperref)                removing `math shift' on input line 55.
+)
+EOF
+OUT=$(parse "$TEST_DIR/warn.log")
+echo "$OUT" | grep -q '^undefined-reference main.tex:33: ' && ok "undefined reference" || fail "undefined reference: $OUT"
+echo "$OUT" | grep -q '^undefined-citation main.tex:40: ' && ok "undefined citation" || fail "undefined citation: $OUT"
+echo "$OUT" | grep -qF "warning main.tex:55: warning: Token not allowed in a PDF string (Unicode): removing \`math shift' on input line 55." \
+  && ok "package warning with continuation line" || fail "package warning: $OUT"
+
+# ─────────────────────────────────────────────────────────────────────
+sec "4. bad boxes and wrapped lines"
+# ─────────────────────────────────────────────────────────────────────
+
+# TeX wraps log lines at 79 characters; the path is split across two lines
+LONG_DIR="a_rather_long_directory_name_that_pushes_the_path_past_the_wrap_limit_x"
+{
+  printf '(./main.tex (./%s\n' "${LONG_DIR:0:64}"
+  printf '%s/appendix.tex\n' "${LONG_DIR:64}"
+  printf 'Overfull \\hbox (12.3pt too wide) in paragraph at lines 8--9\n'
+  printf '[]\\OT1/cmr/m/n/10 Some text|\n'
+  printf ')\n'
+  printf 'Underfull \\vbox (badness 10000) has occurred while \\output is active []\n'
+  printf ')\n'
+} > "$TEST_DIR/box.log"
+OUT=$(parse "$TEST_DIR/box.log")
+echo "$OUT" | grep -q "^overfull $LONG_DIR/appendix.tex:8: warning: Overfull" && ok "overfull box in wrapped path" || fail "overfull box: $OUT"
+echo "$OUT" | grep -q '^underfull main.tex: warning: Underfull' && ok "underfull box without line" || fail "underfull box: $OUT"
+[ "$(echo "$OUT" | wc -l)" -eq 2 ] && ok "box content skipped" || fail "box content parsed as entries"
+
+# ─────────────────────────────────────────────────────────────────────
+echo ""
+echo -e "${BLUE}═══════════════════════════════════════════════${NC}"
+echo -e "  Passed: ${GREEN}$PASSED${NC}    Failed: ${RED}$FAILED${NC}"
+echo -e "${BLUE}═══════════════════════════════════════════════${NC}"
+[ $FAILED -eq 0 ] && exit 0 || exit 1
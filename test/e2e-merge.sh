@@ -0,0 +1,133 @@
+#!/bin/bash
+# E2E test for three-way merge in `sync` (.olcli/base snapshots).
+# Simulates a web-only collaborator by uploading a modified copy of the
+# same file while the local copy is edited, then syncs.
+set -e
+
+PROJECT_ID="697fca16dcd57d705b794c03"
+TEST_DIR=$(mktemp -d)
+TIMESTAMP=$(date +%Y%m%d_%H%M%S)
+TEST_ID="merge_${TIMESTAMP}"
+PASSED=0
+FAILED=0
+
+cleanup() { rm -rf "$TEST_DIR"; }
+trap cleanup EXIT
+
+GREEN='\033[0;32m'; RED='\033[0;31m'; BLUE='\033[0;34m'; YELLOW='\033[1;33m'; NC='\033[0m'
+
+ok()   { echo -e "${GREEN}✓${NC} $1"; PASSED=$((PASSED+1)); }
+fail() { echo -e "${RED}✗${NC} $1"; FAILED=$((FAILED+1)); }
+sec()  { echo -e "\n${BLUE}── $1 ──${NC}"; }
+info() { echo -e "${YELLOW}  → $1${NC}"; }
+
+PAUSE=4
+
+MERGE_FILE="${TEST_ID}_clean.tex"
+CONFLICT_FILE="${TEST_ID}_conflict.tex"
+ABUT_FILE="${TEST_ID}_abut.tex"
+SYNC_DIR="$TEST_DIR/sync"
+REMOTE_DIR="$TEST_DIR/remote"
+mkdir -p "$REMOTE_DIR"
+
+echo "Test ID: $TEST_ID"
+echo "Test dir: $TEST_DIR"
+
+# ─────────────────────────────────────────────────────────────────────
+sec "1. pull records base snapshots"
+# ─────────────────────────────────────────────────────────────────────
+
+printf 'line one\nline two\nline three\nline four\nline five\n' > "$REMOTE_DIR/$MERGE_FILE"
+printf 'alpha\nbeta\ngamma\n' > "$REMOTE_DIR/$CONFLICT_FILE"
+printf 'first\nsecond\nthird\nfourth\n' > "$REMOTE_DIR/$ABUT_FILE"
+sleep $PAUSE
+olcli upload "$REMOTE_DIR/$MERGE_FILE" "$PROJECT_ID" >/dev/null 2>&1 && ok "seed $MERGE_FILE" || fail "seed $MERGE_FILE"
+sleep $PAUSE
+olcli upload "$REMOTE_DIR/$CONFLICT_FILE" "$PROJECT_ID" >/dev/null 2>&1 && ok "seed $CONFLICT_FILE" || fail "seed $CONFLICT_FILE"
+sleep $PAUSE
+olcli upload "$REMOTE_DIR/$ABUT_FILE" "$PROJECT_ID" >/dev/null 2>&1 && ok "seed $ABUT_FILE" || fail "seed $ABUT_FILE"
+
+sleep $PAUSE
+olcli pull "$PROJECT_ID" "$SYNC_DIR" --force >/dev/null 2>&1 && ok "pull" || fail "pull"
+[ -f "$SYNC_DIR/.olcli/base/$MERGE_FILE" ] && ok "base snapshot written" || fail "no base snapshot for $MERGE_FILE"
+
+# ─────────────────────────────────────────────────────────────────────
+sec "2. non-overlapping edits merge cleanly"
+# ─────────────────────────────────────────────────────────────────────
+
+info "remote edits line five, local edits line one"
+printf 'line one\nline two\nline three\nline four\nline FIVE (remote)\n' > "$REMOTE_DIR/$MERGE_FILE"
+sleep $PAUSE
+olcli upload "$REMOTE_DIR/$MERGE_FILE" "$PROJECT_ID" >/dev/null 2>&1 && ok "remote edit uploaded" || fail "remote edit upload"
+sed -i.bak 's/^line one$/line ONE (local)/' "$SYNC_DIR/$MERGE_FILE" && rm -f "$SYNC_DIR/$MERGE_FILE.bak"
+
+sleep $PAUSE
+OUT=$( (cd "$SYNC_DIR" && olcli sync --verbose) 2>&1 ) && ok "sync succeeded" || fail "sync failed"
+echo "$OUT" | grep -qF "$MERGE_FILE" && ok "merged file reported" || fail "merged file not reported"
+grep -qF "line ONE (local)" "$SYNC_DIR/$MERGE_FILE" && ok "local edit kept" || fail "local edit lost"
+grep -qF "line FIVE (remote)" "$SYNC_DIR/$MERGE_FILE" && ok "remote edit merged in" || fail "remote edit lost"
+
+sleep $PAUSE
+olcli download "$MERGE_FILE" "$PROJECT_ID" -o "$TEST_DIR/_merged.tex" >/dev/null 2>&1 || true
+grep -qF "line ONE (local)" "$TEST_DIR/_merged.tex" 2>/dev/null && ok "merged result pushed" || fail "merged result not on remote"
+
+# ─────────────────────────────────────────────────────────────────────
+sec "3. overlapping edits produce conflict markers"
+# ─────────────────────────────────────────────────────────────────────
+
+printf 'alpha\nbeta (remote)\ngamma\n' > "$REMOTE_DIR/$CONFLICT_FILE"
+sleep $PAUSE
+olcli upload "$REMOTE_DIR/$CONFLICT_FILE" "$PROJECT_ID" >/dev/null 2>&1 && ok "remote edit uploaded" || fail "remote edit upload"
+printf 'alpha\nbeta (local)\ngamma\n' > "$SYNC_DIR/$CONFLICT_FILE"
+
+sleep $PAUSE
+OUT=$( (cd "$SYNC_DIR" && olcli sync) 2>&1 ) || true
+echo "$OUT" | grep -qi "conflict" && ok "conflict reported" || fail "conflict not reported"
+grep -q '^<<<<<<< local' "$SYNC_DIR/$CONFLICT_FILE" && ok "conflict markers written" || fail "no conflict markers"
+
+sleep $PAUSE
+olcli download "$CONFLICT_FILE" "$PROJECT_ID" -o "$TEST_DIR/_conflict.tex" >/dev/null 2>&1 || true
+grep -q '<<<<<<<' "$TEST_DIR/_conflict.tex" 2>/dev/null && fail "conflict markers leaked to remote" || ok "conflicted file not pushed"
+
+info "resolving and re-syncing"
+printf 'alpha\nbeta (resolved)\ngamma\n' > "$SYNC_DIR/$CONFLICT_FILE"
+sleep $PAUSE
+(cd "$SYNC_DIR" && olcli sync >/dev/null 2>&1) && ok "sync after resolve" || fail "sync after resolve"
+sleep $PAUSE
+olcli download "$CONFLICT_FILE" "$PROJECT_ID" -o "$TEST_DIR/_resolved.tex" >/dev/null 2>&1 || true
+grep -qF "beta (resolved)" "$TEST_DIR/_resolved.tex" 2>/dev/null && ok "resolution pushed" || fail "resolution not pushed"
+
+# ─────────────────────────────────────────────────────────────────────
+sec "4. edits to adjacent lines merge cleanly"
+# ─────────────────────────────────────────────────────────────────────
+
+info "remote edits line three, local edits line two"
+printf 'first\nsecond\nTHIRD (remote)\nfourth\n' > "$REMOTE_DIR/$ABUT_FILE"
+sleep $PAUSE
+olcli upload "$REMOTE_DIR/$ABUT_FILE" "$PROJECT_ID" >/dev/null 2>&1 && ok "remote edit uploaded" || fail "remote edit upload"
+sed -i.bak 's/^second$/SECOND (local)/' "$SYNC_DIR/$ABUT_FILE" && rm -f "$SYNC_DIR/$ABUT_FILE.bak"
+
+sleep $PAUSE
+OUT=$( (cd "$SYNC_DIR" && olcli sync) 2>&1 ) && ok "sync succeeded" || fail "sync failed"
+echo "$OUT" | grep -qi "conflict" && fail "adjacent edits reported as conflict" || ok "no conflict reported"
+grep -q '<<<<<<<' "$SYNC_DIR/$ABUT_FILE" && fail "conflict markers written" || ok "no conflict markers"
+grep -qF "SECOND (local)" "$SYNC_DIR/$ABUT_FILE" && ok "local edit kept" || fail "local edit lost"
+grep -qF "THIRD (remote)" "$SYNC_DIR/$ABUT_FILE" && ok "remote edit merged in" || fail "remote edit lost"
+
+# ─────────────────────────────────────────────────────────────────────
+sec "Cleanup"
+# ─────────────────────────────────────────────────────────────────────
+
+sleep $PAUSE
+olcli delete "$MERGE_FILE" "$PROJECT_ID" >/dev/null 2>&1 && ok "cleanup $MERGE_FILE" || fail "cleanup $MERGE_FILE"
+sleep $PAUSE
+olcli delete "$CONFLICT_FILE" "$PROJECT_ID" >/dev/null 2>&1 && ok "cleanup $CONFLICT_FILE" || fail "cleanup $CONFLICT_FILE"
+sleep $PAUSE
+olcli delete "$ABUT_FILE" "$PROJECT_ID" >/dev/null 2>&1 && ok "cleanup $ABUT_FILE" || fail "cleanup $ABUT_FILE"
+
+# ─────────────────────────────────────────────────────────────────────
+echo ""
+echo -e "${BLUE}═══════════════════════════════════════════════${NC}"
+echo -e "  Passed: ${GREEN}$PASSED${NC}    Failed: ${RED}$FAILED${NC}"
+echo -e "${BLUE}═══════════════════════════════════════════════${NC}"
+[ $FAILED -eq 0 ] && exit 0 || exit 1
@@ -0,0 +1,85 @@
+#!/bin/bash
+# Offline test for the markup written by `pull --with-track-changes`
+# (trackChangesMarkup() in src/review.ts). Needs no Overleaf connection.
+set -e
+
+ROOT="$(cd "$(dirname "$0")/.." && pwd)"
+PASSED=0
+FAILED=0
+
+GREEN='\033[0;32m'; RED='\033[0;31m'; BLUE='\033[0;34m'; YELLOW='\033[1;33m'; NC='\033[0m'
+
+ok()   { echo -e "${GREEN}✓${NC} $1"; PASSED=$((PASSED+1)); }
+fail() { echo -e "${RED}✗${NC} $1"; FAILED=$((FAILED+1)); }
+sec()  { echo -e "\n${BLUE}── $1 ──${NC}"; }
+info() { echo -e "${YELLOW}  → $1${NC}"; }
+
+# Render doc text $1 with changes $2 (JSON array of {type, position, text});
+# prints the marked-up text, then one "skipped <id>" line per skipped change
+render() {
+  (cd "$ROOT" && npx tsx -e "
+    import { trackChangesMarkup } from './src/review.ts';
+    const changes = JSON.parse(process.argv[2]).map((c, i) => ({ id: 'c' + i, ...c }));
+    const result = trackChangesMarkup(process.argv[1], changes);
+    process.stdout.write(result.text + '\n');
+    for (const c of result.skipped) console.log('skipped ' + c.id);
+  " "$1" "$2")
+}
+
+# expect <description> <expected output> <text> <changes>
+expect() {
+  local out
+  out=$(render "$3" "$4")
+  if [ "$out" = "$2" ]; then ok "$1"; else fail "$1"; info "expected: $2"; info "got:      $out"; fi
+}
+
+# ─────────────────────────────────────────────────────────────────────
+sec "1. insertions and deletions"
+# ─────────────────────────────────────────────────────────────────────
+
+expect "insertion wrapped in added markup" 'A \added{new }word.' \
+  'A new word.' '[{"type":"insert","position":2,"text":"new "}]'
+expect "deletion put back as deleted markup" 'A \deleted{old }word.' \
+  'A word.' '[{"type":"delete","position":2,"text":"old "}]'
+expect "deletion and insertion at the same offset" 'A \deleted{old}\added{new} word.' \
+  'A new word.' '[{"type":"insert","position":2,"text":"new"},{"type":"delete","position":2,"text":"old"}]'
+expect "same offset, deletion listed first" 'A \deleted{old}\added{new} word.' \
+  'A new word.' '[{"type":"delete","position":2,"text":"old"},{"type":"insert","position":2,"text":"new"}]'
+expect "offsets of earlier changes stay valid" '\added{One} two \deleted{three }four' \
+  'One two four' '[{"type":"insert","position":0,"text":"One"},{"type":"delete","position":8,"text":"three "}]'
+expect "one command per paragraph" $'\\added{First.}\n\n\\added{Second.}' \
+  $'First.\n\nSecond.' '[{"type":"insert","position":0,"text":"First.\n\nSecond."}]'
+
+# ─────────────────────────────────────────────────────────────────────
+sec "2. text that cannot be a command argument"
+# ─────────────────────────────────────────────────────────────────────
+
+expect "balanced braces are fine" 'See \added{\emph{this}}.' \
+  'See \emph{this}.' '[{"type":"insert","position":4,"text":"\\emph{this}"}]'
+expect "escaped braces are fine" 'Set \added{\{x\}}.' \
+  'Set \{x\}.' '[{"type":"insert","position":4,"text":"\\{x\\}"}]'
+expect "insertion with an unbalanced brace stays plain" $'See \\emph{this}.\nskipped c0' \
+  'See \emph{this}.' '[{"type":"insert","position":4,"text":"\\emph{"}]'
+expect "deletion with an unbalanced brace is left out" $'See this}.\nskipped c0' \
+  'See this}.' '[{"type":"delete","position":4,"text":"\\textbf{"}]'
+expect "trailing % comment is skipped" $'Text % note\nskipped c0' \
+  'Text % note' '[{"type":"insert","position":5,"text":"% note"}]'
+expect "% comment ending inside the text is fine" $'\\added{a % note\nb}' \
+  $'a % note\nb' '[{"type":"insert","position":0,"text":"a % note\nb"}]'
+expect "escaped % is fine" 'Up \added{5\%}.' \
+  'Up 5\%.' '[{"type":"insert","position":3,"text":"5\\%"}]'
+expect "half an environment is skipped" $'\\begin{itemize}\nskipped c0' \
+  '\begin{itemize}' '[{"type":"insert","position":0,"text":"\\begin{itemize}"}]'
+expect "trailing backslash is skipped" $'a\\\nskipped c0' \
+  'a\' '[{"type":"insert","position":1,"text":"\\"}]'
+expect "escaped backslash at the end is fine" 'a\added{\\}' \
+  'a\\' '[{"type":"insert","position":1,"text":"\\\\"}]'
+expect "skipping one change keeps the others" $'\\added{A} b{ \\deleted{c}\nskipped c1' \
+  'A b{ ' '[{"type":"insert","position":0,"text":"A"},{"type":"insert","position":2,"text":"b{"},{"type":"delete","position":5,"text":"c"}]'
+
+# ─────────────────────────────────────────────────────────────────────
+echo ""
+echo -e "${BLUE}═══════════════════════════════════════════════${NC}"
+echo -e "  Passed: ${GREEN}$PASSED${NC}    Failed: ${RED}$FAILED${NC}"
+echo -e "${BLUE}═══════════════════════════════════════════════${NC}"
+[ $FAILED -eq 0 ] && exit 0 || exit 1
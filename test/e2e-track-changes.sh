@@ -0,0 +1,96 @@
+#!/bin/bash
+# E2E test for files pulled with `pull --with-track-changes`.
+# Files recorded in .olcli.json's trackChangesMarkup must never be uploaded
+# by push or sync, and a plain pull must clear the record. The markup state
+# is set up by hand, since tracked changes cannot be created from the CLI.
+set -e
+
+PROJECT_ID="697fca16dcd57d705b794c03"
+TEST_DIR=$(mktemp -d)
+TIMESTAMP=$(date +%Y%m%d_%H%M%S)
+TEST_ID="tc_${TIMESTAMP}"
+PASSED=0
+FAILED=0
+
+cleanup() { rm -rf "$TEST_DIR"; }
+trap cleanup EXIT
+
+GREEN='\033[0;32m'; RED='\033[0;31m'; BLUE='\033[0;34m'; YELLOW='\033[1;33m'; NC='\033[0m'
+
+ok()   { echo -e "${GREEN}✓${NC} $1"; PASSED=$((PASSED+1)); }
+fail() { echo -e "${RED}✗${NC} $1"; FAILED=$((FAILED+1)); }
+sec()  { echo -e "\n${BLUE}── $1 ──${NC}"; }
+info() { echo -e "${YELLOW}  → $1${NC}"; }
+
+PAUSE=4
+
+MARKUP_FILE="${TEST_ID}_markup.tex"
+SYNC_DIR="$TEST_DIR/sync"
+
+echo "Test ID: $TEST_ID"
+echo "Test dir: $TEST_DIR"
+
+# ─────────────────────────────────────────────────────────────────────
+sec "1. marked-up file is recorded"
+# ─────────────────────────────────────────────────────────────────────
+
+printf 'first\nsecond\n' > "$TEST_DIR/$MARKUP_FILE"
+sleep $PAUSE
+olcli upload "$TEST_DIR/$MARKUP_FILE" "$PROJECT_ID" >/dev/null 2>&1 && ok "seed $MARKUP_FILE" || fail "seed $MARKUP_FILE"
+sleep $PAUSE
+olcli pull "$PROJECT_ID" "$SYNC_DIR" --force >/dev/null 2>&1 && ok "pull" || fail "pull"
+
+info "writing markup as pull --with-track-changes would"
+printf 'first\n\\added{new }second\n' > "$SYNC_DIR/$MARKUP_FILE"
+node -e "
+  const fs = require('fs');
+  const path = process.argv[1] + '/.olcli.json';
+  const meta = JSON.parse(fs.readFileSync(path, 'utf-8'));
+  const content = fs.readFileSync(process.argv[1] + '/' + process.argv[2]);
+  const hash = require('crypto').createHash('sha1').update(content).digest('hex');
+  meta.localFiles[process.argv[2]] = { hash, size: content.length };
+  meta.trackChangesMarkup = [process.argv[2]];
+  fs.writeFileSync(path, JSON.stringify(meta, null, 2));
+" "$SYNC_DIR" "$MARKUP_FILE"
+grep -qF "$MARKUP_FILE" "$SYNC_DIR/.olcli.json" && ok "recorded in .olcli.json" || fail "not recorded"
+
+# ─────────────────────────────────────────────────────────────────────
+sec "2. push and sync skip the marked-up file"
+# ─────────────────────────────────────────────────────────────────────
+
+sleep $PAUSE
+OUT=$( (cd "$SYNC_DIR" && olcli push --all) 2>&1 ) || true
+echo "$OUT" | grep -q "Skipping $MARKUP_FILE: tracked-change markup" && ok "push warns" || fail "push did not warn: $OUT"
+
+sleep $PAUSE
+OUT=$( (cd "$SYNC_DIR" && olcli sync) 2>&1 ) && ok "sync succeeded" || fail "sync failed"
+echo "$OUT" | grep -q "tracked-change markup skipped" && ok "sync warns" || fail "sync did not warn: $OUT"
+grep -qF '\added{' "$SYNC_DIR/$MARKUP_FILE" && ok "sync left the local markup alone" || fail "sync overwrote the markup"
+grep -qF "$MARKUP_FILE" "$SYNC_DIR/.olcli.json" && ok "still recorded after sync" || fail "record lost by sync"
+
+sleep $PAUSE
+olcli download "$MARKUP_FILE" "$PROJECT_ID" -o "$TEST_DIR/_remote.tex" >/dev/null 2>&1 || true
+grep -qF '\added' "$TEST_DIR/_remote.tex" 2>/dev/null && fail "markup leaked to remote" || ok "markup not uploaded"
+
+# ─────────────────────────────────────────────────────────────────────
+sec "3. a plain pull replaces the markup and clears the record"
+# ─────────────────────────────────────────────────────────────────────
+
+sleep $PAUSE
+(cd "$SYNC_DIR" && olcli pull >/dev/null 2>&1) && ok "plain pull" || fail "plain pull"
+grep -qF '\added' "$SYNC_DIR/$MARKUP_FILE" && fail "markup still present" || ok "markup replaced"
+grep -q '"trackChangesMarkup"' "$SYNC_DIR/.olcli.json" && fail "record not cleared" || ok "record cleared"
+
+# ─────────────────────────────────────────────────────────────────────
+sec "Cleanup"
+# ─────────────────────────────────────────────────────────────────────
+
+sleep $PAUSE
+olcli delete "$MARKUP_FILE" "$PROJECT_ID" >/dev/null 2>&1 && ok "cleanup $MARKUP_FILE" || fail "cleanup $MARKUP_FILE"
+
+# ─────────────────────────────────────────────────────────────────────
+echo ""
+echo -e "${BLUE}═══════════════════════════════════════════════${NC}"
+echo -e "  Passed: ${GREEN}$PASSED${NC}    Failed: ${RED}$FAILED${NC}"
+echo -e "${BLUE}═══════════════════════════════════════════════${NC}"
+[ $FAILED -eq 0 ] && exit 0 || exit 1